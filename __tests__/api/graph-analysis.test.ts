@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from '@/app/api/graph/analysis/route'
+
+// Mock the graph-builder module, keeping the real analysis functions
+vi.mock('@/lib/graph-builder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/graph-builder')>()),
+  buildLinkGraph: vi.fn(),
+}))
+
+describe('/api/graph/analysis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return orphans, dead ends, centrality, components and communities', async () => {
+    const { buildLinkGraph } = await import('@/lib/graph-builder')
+
+    vi.mocked(buildLinkGraph).mockResolvedValueOnce({
+      pages: new Map([
+        ['hub', { slug: 'hub', title: 'Hub', keywords: ['sufism'] }],
+        ['leaf', { slug: 'leaf', title: 'Leaf', keywords: ['Sufism'] }],
+        ['island', { slug: 'island', title: 'Island', keywords: [] }]
+      ]),
+      forwardLinks: new Map([
+        ['hub', new Set(['leaf', 'missing'])],
+        ['leaf', new Set(['hub'])]
+      ]),
+      backlinks: new Map(),
+      edges: [],
+      brokenLinks: []
+    })
+
+    const response = await GET(new Request('http://localhost:3000/api/graph/analysis'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.orphans).toEqual(['island'])
+    expect(data.deadEnds).toEqual(['island'])
+    expect(data.centrality).toHaveLength(3)
+    expect(data.components).toEqual([['hub', 'leaf'], ['island']])
+    expect(data.communities[0]).toEqual({ label: 'sufism', pages: ['hub', 'leaf'], keywords: ['sufism'] })
+    expect(data.stats).toEqual({
+      totalPages: 3,
+      orphanCount: 1,
+      deadEndCount: 1,
+      componentCount: 2,
+      communityCount: 2
+    })
+  })
+
+  it('should reject forbidden origins', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/graph/analysis', {
+      headers: { origin: 'https://evil.example' }
+    }))
+
+    expect(response.status).toBe(403)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from '@/app/api/graph/broken/route'
+
+// Mock the graph-builder module, keeping the real grouping helper
+vi.mock('@/lib/graph-builder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/graph-builder')>()),
+  buildLinkGraph: vi.fn(),
+}))
+
+describe('/api/graph/broken', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return broken links with source file and line', async () => {
+    const { buildLinkGraph } = await import('@/lib/graph-builder')
+
+    vi.mocked(buildLinkGraph).mockResolvedValueOnce({
+      pages: new Map([
+        ['page1', { slug: 'page1', title: 'Page 1' }]
+      ]),
+      forwardLinks: new Map([
+        ['page1', new Set(['missing'])]
+      ]),
+      backlinks: new Map(),
+      edges: [],
+      brokenLinks: [
+        { from: 'page1', to: 'missing', file: 'content/chapters/page1.md', line: 12 }
+      ]
+    })
+
+    const response = await GET(new Request('http://localhost:3000/api/graph/broken'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.brokenLinks).toEqual([
+      { from: 'page1', to: 'missing', file: 'content/chapters/page1.md', line: 12 }
+    ])
+    expect(data.bySource.page1).toHaveLength(1)
+    expect(data.stats).toEqual({
+      totalBrokenLinks: 1,
+      affectedPages: 1,
+      missingTargets: ['missing']
+    })
+  })
+
+  it('should reject forbidden origins', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/graph/broken', {
+      headers: { origin: 'https://evil.example' }
+    }))
+
+    expect(response.status).toBe(403)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from '@/app/api/graph/unlinked/route'
+
+// Mock the scanner, keeping the real grouping helper
+vi.mock('@/lib/unlinked-mentions', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/unlinked-mentions')>()),
+  findUnlinkedMentions: vi.fn(),
+}))
+
+const mention = (from: string, to: string, line: number) => ({
+  from,
+  to,
+  term: to,
+  file: `content/chapters/${from}.md`,
+  line,
+  column: 1,
+  count: 1,
+  context: { before: '', anchor: to, after: ' is mentioned.' }
+})
+
+describe('/api/graph/unlinked', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return suggested links grouped by file', async () => {
+    const { findUnlinkedMentions } = await import('@/lib/unlinked-mentions')
+    vi.mocked(findUnlinkedMentions).mockResolvedValueOnce([
+      mention('preface', 'geel', 12),
+      mention('preface', 'majdhub', 20),
+      mention('conclusion', 'geel', 3)
+    ])
+
+    const response = await GET(new Request('http://localhost:3000/api/graph/unlinked'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.mentions).toHaveLength(3)
+    expect(data.byFile['content/chapters/preface.md']).toHaveLength(2)
+    expect(data.stats).toEqual({
+      totalMentions: 3,
+      affectedFiles: 2,
+      mentionedPages: ['geel', 'majdhub']
+    })
+  })
+
+  it('should filter by mentioned page', async () => {
+    const { findUnlinkedMentions } = await import('@/lib/unlinked-mentions')
+    vi.mocked(findUnlinkedMentions).mockResolvedValueOnce([
+      mention('preface', 'geel', 12),
+      mention('preface', 'majdhub', 20)
+    ])
+
+    const response = await GET(new Request('http://localhost:3000/api/graph/unlinked?to=geel'))
+    const data = await response.json()
+
+    expect(data.mentions.map((m: { to: string }) => m.to)).toEqual(['geel'])
+  })
+
+  it('should reject invalid slugs', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/graph/unlinked?to=../etc'))
+
+    expect(response.status).toBe(400)
+  })
+})
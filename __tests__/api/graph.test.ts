@@ -19,12 +19,14 @@ describe('/api/graph', () => {
         ['page1', {
           slug: 'page1',
           title: 'Page 1',
+          collection: 'chapters' as const,
           category: 'mysticism',
           keywords: ['test', 'keyword']
         }],
         ['page2', {
           slug: 'page2',
           title: 'Page 2',
+          collection: 'papers' as const,
           category: 'psychology',
           keywords: []
         }]
@@ -35,12 +37,16 @@ describe('/api/graph', () => {
       ]),
       backlinks: new Map([
         ['page2', new Set(['page1'])]
-      ])
+      ]),
+      edges: [
+        { from: 'page1', to: 'page2', type: 'inline' as const, count: 2, sections: [{ id: 'origins', title: 'Origins' }], occurrences: [] }
+      ],
+      brokenLinks: []
     }
 
     vi.mocked(buildLinkGraph).mockResolvedValueOnce(mockGraph)
 
-    const response = await GET()
+    const response = await GET(new Request('http://localhost:3000/api/graph'))
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -53,6 +59,7 @@ describe('/api/graph', () => {
     expect(data.nodes[0]).toEqual({
       id: 'page1',
       title: 'Page 1',
+      collection: 'chapters',
       category: 'mysticism',
       keywords: ['test', 'keyword'],
       url: 'https://sacred-madness.vercel.app/wiki/page1'
@@ -60,6 +67,7 @@ describe('/api/graph', () => {
     expect(data.nodes[1]).toEqual({
       id: 'page2',
       title: 'Page 2',
+      collection: 'papers',
       category: 'psychology',
       keywords: [],
       url: 'https://sacred-madness.vercel.app/wiki/page2'
@@ -69,13 +77,17 @@ describe('/api/graph', () => {
     expect(data.edges).toHaveLength(1)
     expect(data.edges[0]).toEqual({
       from: 'page1',
-      to: 'page2'
+      to: 'page2',
+      type: 'inline',
+      count: 2,
+      sections: [{ id: 'origins', title: 'Origins' }]
     })
 
     // Check stats
     expect(data.stats).toEqual({
       totalPages: 2,
       totalLinks: 1,
+      linksByType: { related: 0, seeAlso: 0, inline: 1 },
       categories: ['mysticism', 'psychology']
     })
   })
@@ -86,12 +98,14 @@ describe('/api/graph', () => {
     const mockGraph = {
       pages: new Map(),
       forwardLinks: new Map<string, Set<string>>(),
-      backlinks: new Map()
+      backlinks: new Map(),
+      edges: [],
+      brokenLinks: []
     }
 
     vi.mocked(buildLinkGraph).mockResolvedValueOnce(mockGraph)
 
-    const response = await GET()
+    const response = await GET(new Request('http://localhost:3000/api/graph'))
     const data = await response.json()
 
     expect(response.status).toBe(200)
@@ -100,6 +114,7 @@ describe('/api/graph', () => {
     expect(data.stats).toEqual({
       totalPages: 0,
       totalLinks: 0,
+      linksByType: { related: 0, seeAlso: 0, inline: 0 },
       categories: []
     })
   })
@@ -128,12 +143,14 @@ describe('/api/graph', () => {
         }]
       ]),
       forwardLinks: new Map<string, Set<string>>(),
-      backlinks: new Map()
+      backlinks: new Map(),
+      edges: [],
+      brokenLinks: []
     }
 
     vi.mocked(buildLinkGraph).mockResolvedValueOnce(mockGraph)
 
-    const response = await GET()
+    const response = await GET(new Request('http://localhost:3000/api/graph'))
     const data = await response.json()
 
     expect(data.stats.categories).toEqual(['mysticism'])
@@ -156,19 +173,28 @@ describe('/api/graph', () => {
       backlinks: new Map([
         ['page2', new Set(['page1'])],
         ['page3', new Set(['page1', 'page2'])]
-      ])
+      ]),
+      edges: [
+        { from: 'page1', to: 'page2', type: 'related' as const, count: 1, sections: [], occurrences: [] },
+        { from: 'page1', to: 'page2', type: 'inline' as const, count: 1, sections: [], occurrences: [] },
+        { from: 'page1', to: 'page3', type: 'seeAlso' as const, count: 1, sections: [], occurrences: [] },
+        { from: 'page2', to: 'page3', type: 'inline' as const, count: 3, sections: [], occurrences: [] }
+      ],
+      brokenLinks: []
     }
 
     vi.mocked(buildLinkGraph).mockResolvedValueOnce(mockGraph)
 
-    const response = await GET()
+    const response = await GET(new Request('http://localhost:3000/api/graph'))
     const data = await response.json()
 
-    expect(data.edges).toHaveLength(3)
-    expect(data.edges).toContainEqual({ from: 'page1', to: 'page2' })
-    expect(data.edges).toContainEqual({ from: 'page1', to: 'page3' })
-    expect(data.edges).toContainEqual({ from: 'page2', to: 'page3' })
-    expect(data.stats.totalLinks).toBe(3)
+    expect(data.edges).toHaveLength(4)
+    expect(data.edges).toContainEqual({ from: 'page1', to: 'page2', type: 'related', count: 1, sections: [] })
+    expect(data.edges).toContainEqual({ from: 'page1', to: 'page2', type: 'inline', count: 1, sections: [] })
+    expect(data.edges).toContainEqual({ from: 'page1', to: 'page3', type: 'seeAlso', count: 1, sections: [] })
+    expect(data.edges).toContainEqual({ from: 'page2', to: 'page3', type: 'inline', count: 3, sections: [] })
+    expect(data.stats.totalLinks).toBe(4)
+    expect(data.stats.linksByType).toEqual({ related: 1, seeAlso: 1, inline: 2 })
   })
 
   it('should handle buildLinkGraph errors', async () => {
@@ -176,11 +202,11 @@ describe('/api/graph', () => {
     
     vi.mocked(buildLinkGraph).mockRejectedValueOnce(new Error('File system error'))
 
-    const response = await GET()
+    const response = await GET(new Request('http://localhost:3000/api/graph'))
     const data = await response.json()
 
     expect(response.status).toBe(500)
-    expect(data.error).toBe('Failed to build graph')
+    expect(data.error).toBe('Internal server error')
   })
 
   it('should include all required node properties', async () => {
@@ -199,12 +225,14 @@ describe('/api/graph', () => {
         }]
       ]),
       forwardLinks: new Map<string, Set<string>>(),
-      backlinks: new Map()
+      backlinks: new Map(),
+      edges: [],
+      brokenLinks: []
     }
 
     vi.mocked(buildLinkGraph).mockResolvedValueOnce(mockGraph)
 
-    const response = await GET()
+    const response = await GET(new Request('http://localhost:3000/api/graph'))
     const data = await response.json()
 
     const node = data.nodes[0]
@@ -227,12 +255,14 @@ describe('/api/graph', () => {
         ['page3', { slug: 'page3', title: 'Page 3', category: 'psychology', keywords: [] }]
       ]),
       forwardLinks: new Map(),
-      backlinks: new Map()
+      backlinks: new Map(),
+      edges: [],
+      brokenLinks: []
     }
 
     vi.mocked(buildLinkGraph).mockResolvedValueOnce(mockGraph)
 
-    const response = await GET()
+    const response = await GET(new Request('http://localhost:3000/api/graph'))
     const data = await response.json()
 
     expect(data.stats.categories).toEqual(['mysticism', 'psychology'])
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from '@/app/api/search/click/route'
+import { logSearchClick } from '@/lib/search-log'
+
+vi.mock('@/lib/search-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/search-log')>()),
+  logSearchClick: vi.fn(async () => {})
+}))
+
+const SEARCH_ID = '5f0c7a52-3f4e-4c1b-9a57-2d8e6b1c9e40'
+
+const beacon = (body: unknown) => POST(new Request('http://localhost:3000/api/search/click', {
+  method: 'POST',
+  headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+  body: typeof body === 'string' ? body : JSON.stringify(body)
+}))
+
+describe('/api/search/click', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should log a click on a search result', async () => {
+    const response = await beacon({ searchId: SEARCH_ID, slug: 'preface', position: 2 })
+
+    expect(response.status).toBe(204)
+    expect(logSearchClick).toHaveBeenCalledWith({ id: SEARCH_ID, slug: 'preface', position: 2 })
+  })
+
+  it('should reject malformed reports', async () => {
+    for (const body of [
+      'not json',
+      { searchId: 'abc', slug: 'preface', position: 1 },
+      { searchId: SEARCH_ID, slug: '../package', position: 1 },
+      { searchId: SEARCH_ID, slug: 'preface', position: 0 }
+    ]) {
+      expect((await beacon(body)).status).toBe(400)
+    }
+    expect(logSearchClick).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from '@/app/api/search/route'
+import { clearSearchIndexCache } from '@/lib/search-index'
+import { logSearch } from '@/lib/search-log'
+import { mockContentPage } from '@/__tests__/helpers/content'
+
+vi.mock('@/lib/content', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/content')>()),
+  loadAllPages: vi.fn()
+}))
+
+const SEARCH_ID = '5f0c7a52-3f4e-4c1b-9a57-2d8e6b1c9e40'
+
+vi.mock('@/lib/search-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/search-log')>()),
+  logSearch: vi.fn()
+}))
+
+const search = (query: string) => GET(new Request(`http://localhost:3000/api/search?q=${encodeURIComponent(query)}`))
+
+describe('/api/search', () => {
+  beforeEach(async () => {
+    clearSearchIndexCache()
+    vi.mocked(logSearch).mockResolvedValue(SEARCH_ID)
+    const { loadAllPages } = await import('@/lib/content')
+    vi.mocked(loadAllPages).mockResolvedValue([
+      { ...mockContentPage('aaa-mention', 'Intro.\n\nA passing note on Geel.', { title: 'Another Chapter' }), collection: 'papers' },
+      mockContentPage('geel', 'Geel is a town in Flanders.\n\n## Pilgrims\n\nGeel welcomed pilgrims.', {
+        title: 'St. Dymphna and Geel',
+        category: 'Mental Health',
+        keywords: ['Geel']
+      })
+    ])
+  })
+
+  it('should return ranked results with scores and snippets', async () => {
+    const response = await search('geel')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.count).toBe(2)
+    expect(data.results.map((r: { slug: string }) => r.slug)).toEqual(['geel', 'aaa-mention'])
+    expect(data.results[0].score).toBeGreaterThan(data.results[1].score)
+    expect(data.results[0]).toMatchObject({
+      title: 'St. Dymphna and Geel',
+      category: 'Mental Health',
+      snippets: [
+        {
+          text: 'Geel is a town in Flanders.',
+          highlights: [[0, 4]],
+          url: 'https://sacred-madness.vercel.app/wiki/geel'
+        },
+        {
+          text: 'Geel welcomed pilgrims.',
+          highlights: [[0, 4]],
+          section: { id: 'pilgrims', title: 'Pilgrims' },
+          url: 'https://sacred-madness.vercel.app/wiki/geel#pilgrims'
+        }
+      ],
+      url: 'https://sacred-madness.vercel.app/wiki/geel'
+    })
+  })
+
+  it('should report fuzzy corrections', async () => {
+    const data = await (await search('pilgrms')).json()
+
+    expect(data.corrections).toEqual([{ from: 'pilgrm', to: 'pilgrim' }])
+    expect(data.results[0].slug).toBe('geel')
+  })
+
+  it('should accept the query syntax', async () => {
+    const data = await (await search('geel NOT category:"Mental Health"')).json()
+
+    expect(data.sanitizedQuery).toBe('geel NOT category:"Mental Health"')
+    expect(data.results.map((r: { slug: string }) => r.slug)).toEqual(['aaa-mention'])
+  })
+
+  it('should limit results to one collection', async () => {
+    const data = await (await GET(new Request('http://localhost:3000/api/search?q=geel&collection=papers'))).json()
+
+    expect(data.collection).toBe('papers')
+    expect(data.results.map((r: { slug: string; collection: string }) => [r.slug, r.collection])).toEqual([
+      ['aaa-mention', 'papers']
+    ])
+  })
+
+  it('should return facets and page through results', async () => {
+    const response = await GET(new Request('http://localhost:3000/api/search?q=geel&page=2&pageSize=1'))
+    const data = await response.json()
+
+    expect(data).toMatchObject({
+      total: 2,
+      count: 1,
+      page: 2,
+      pageSize: 1,
+      totalPages: 2,
+      sort: 'relevance',
+      facets: {
+        collections: [
+          { value: 'chapters', count: 1 },
+          { value: 'papers', count: 1 }
+        ],
+        categories: [{ value: 'Mental Health', count: 1 }],
+        keywords: [{ value: 'Geel', count: 1 }]
+      }
+    })
+    expect(data.results.map((r: { slug: string }) => r.slug)).toEqual(['aaa-mention'])
+  })
+
+  it('should limit results to one collection', async () => {
+    const data = await (await GET(new Request('http://localhost:3000/api/search?q=geel&collection=papers'))).json()
+
+    expect(data.collection).toBe('papers')
+    expect(data.results.map((r: { slug: string; collection: string }) => [r.slug, r.collection])).toEqual([
+      ['aaa-mention', 'papers']
+    ])
+  })
+
+  it('should sort results', async () => {
+    const data = await (await GET(new Request('http://localhost:3000/api/search?q=geel&sort=title'))).json()
+
+    expect(data.results.map((r: { title: string }) => r.title)).toEqual(['Another Chapter', 'St. Dymphna and Geel'])
+  })
+
+  it('should reject invalid paging, sort and collection parameters', async () => {
+    for (const params of ['page=0', 'page=abc', 'pageSize=51', 'pageSize=2.5', 'sort=date', 'collection=books']) {
+      const response = await GET(new Request(`http://localhost:3000/api/search?q=geel&${params}`))
+      expect(response.status).toBe(400)
+    }
+  })
+
+  it('should log the first page of each search and return its id', async () => {
+    const data = await (await GET(new Request(`http://localhost:3000/api/search?q=Geel&refines=${SEARCH_ID}`))).json()
+
+    expect(data.searchId).toBe(SEARCH_ID)
+    expect(logSearch).toHaveBeenCalledWith({ query: 'Geel', results: 2, corrected: false, refines: SEARCH_ID })
+
+    vi.mocked(logSearch).mockClear()
+    const later = await (await GET(new Request('http://localhost:3000/api/search?q=geel&page=2&pageSize=1'))).json()
+
+    expect(later.searchId).toBeNull()
+    expect(logSearch).not.toHaveBeenCalled()
+    expect((await GET(new Request('http://localhost:3000/api/search?q=geel&refines=abc'))).status).toBe(400)
+  })
+
+  it('should validate the query', async () => {
+    expect((await GET(new Request('http://localhost:3000/api/search'))).status).toBe(400)
+    expect((await search('a')).status).toBe(400)
+    expect((await search('x'.repeat(201))).status).toBe(400)
+  })
+})
@@ -1,15 +1,78 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { act, render, screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { AIChat } from '@/components/AIChat'
+import { formatServerSentEvent, type ChatStreamEvent } from '@/lib/chat-stream'
+import { openChat } from '@/lib/chat-client'
+import type { ChatSession } from '@/lib/chat-sessions'
+
+// Sessions in memory, in place of IndexedDB
+const storedSessions = new Map<string, ChatSession>()
+vi.mock('@/lib/chat-sessions', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/chat-sessions')>()),
+  listSessions: vi.fn(async (slug?: string) => [...storedSessions.values()]
+    .filter(session => !slug || session.slug === slug)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))),
+  saveSession: vi.fn(async (session: ChatSession) => { storedSessions.set(session.id, session) }),
+  deleteSession: vi.fn(async (id: string) => { storedSessions.delete(id) })
+}))
+
+const savedSession = (id: string, slug: string | null, question: string, updatedAt: string): ChatSession => ({
+  id,
+  slug,
+  title: question,
+  createdAt: updatedAt,
+  updatedAt,
+  messages: [
+    { role: 'user', content: question },
+    { role: 'assistant', content: `Answer to: ${question}`, model: 'anthropic/claude-3.5-haiku' }
+  ]
+})
+
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement>) => {
+    return <a href={href} {...props}>{children}</a>
+  }
+}))
 
 // Mock fetch globally
 const mockFetch = vi.fn()
 global.fetch = mockFetch
 
+// A streamed answer whose events the test sends one at a time
+function mockAnswerStream() {
+  const encoder = new TextEncoder()
+  let stream!: ReadableStreamDefaultController<Uint8Array>
+  let signal: AbortSignal | undefined
+
+  vi.mocked(global.fetch).mockImplementation(async (_url, init) => {
+    signal = init?.signal ?? undefined
+    signal?.addEventListener('abort', () => stream.error(new DOMException('Aborted', 'AbortError')))
+    return new Response(new ReadableStream({ start(controller) { stream = controller } }), {
+      headers: { 'Content-Type': 'text/event-stream', 'X-Chat-Model': 'anthropic/claude-sonnet-4.5' }
+    })
+  })
+
+  return {
+    send: (event: ChatStreamEvent) => stream.enqueue(encoder.encode(formatServerSentEvent(event))),
+    end: () => stream.close(),
+    aborted: () => signal?.aborted
+  }
+}
+
+async function ask(question: string) {
+  const user = userEvent.setup()
+  render(<AIChat slug="preface" />)
+  await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+  await user.type(screen.getByPlaceholderText('Ask a question...'), question)
+  await user.click(screen.getByRole('button', { name: 'Send' }))
+  return user
+}
+
 describe('AIChat', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    storedSessions.clear()
   })
 
   it('should render chat button when closed', () => {
@@ -111,4 +174,365 @@ describe('AIChat', () => {
     // Component should render without errors
     expect(screen.getByRole('button', { name: /open ai research assistant/i })).toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  it('should render the answer as it streams in', async () => {
+    const answer = mockAnswerStream()
+    await ask('What is a salos?')
+
+    answer.send({ type: 'token', text: 'Holy ' })
+    expect(await screen.findByText('Holy')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Stop answer' })).toBeInTheDocument()
+
+    answer.send({ type: 'token', text: 'fools.' })
+    answer.send({ type: 'done' })
+    answer.end()
+
+    expect(await screen.findByText('Holy fools.')).toBeInTheDocument()
+    expect(await screen.findByRole('button', { name: 'Send' })).toBeInTheDocument()
+  })
+
+  it('should stop the answer and keep what arrived', async () => {
+    const answer = mockAnswerStream()
+    const user = await ask('What is a salos?')
+
+    answer.send({ type: 'token', text: 'Holy fools' })
+    await screen.findByText('Holy fools')
+    await user.click(screen.getByRole('button', { name: 'Stop answer' }))
+
+    expect(answer.aborted()).toBe(true)
+    expect(await screen.findByRole('button', { name: 'Send' })).toBeInTheDocument()
+    expect(screen.getByText('Holy fools')).toBeInTheDocument()
+  })
+
+  it('should leave an answer still streaming behind when starting a new conversation', async () => {
+    const answer = mockAnswerStream()
+    const user = await ask('What is a salos?')
+    answer.send({ type: 'token', text: 'A Byzantine' })
+    await screen.findByText('A Byzantine')
+
+    await user.click(screen.getByRole('button', { name: 'New conversation' }))
+
+    expect(answer.aborted()).toBe(true)
+    expect(await screen.findByText('Ask me anything about this research!')).toBeInTheDocument()
+    expect(screen.queryByText('A Byzantine')).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Send' })).toBeInTheDocument()
+  })
+
+  it('should start a new conversation after navigating to a page without one', async () => {
+    storedSessions.set('old', savedSession('old', 'preface', 'What is a salos?', '2026-10-18T10:00:00.000Z'))
+    const user = userEvent.setup()
+    const { rerender } = render(<AIChat slug="preface" />)
+    await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+    await screen.findByText('Answer to: What is a salos?')
+
+    rerender(<AIChat slug="majdhub" />)
+    expect(await screen.findByText('Ask me anything about this research!')).toBeInTheDocument()
+
+    const answer = mockAnswerStream()
+    await user.type(screen.getByPlaceholderText('Ask a question...'), 'What is a mast?')
+    await user.click(screen.getByRole('button', { name: 'Send' }))
+    answer.send({ type: 'token', text: 'A wandering majdhub.' })
+    answer.send({ type: 'done' })
+    answer.end()
+    await screen.findByRole('button', { name: 'Send' })
+
+    expect(storedSessions.get('old')!.messages).toHaveLength(2)
+    expect([...storedSessions.values()].find(session => session.id !== 'old')).toMatchObject({
+      slug: 'majdhub',
+      title: 'What is a mast?'
+    })
+  })
+
+  it('should send earlier turns with a follow-up question', async () => {
+    const answer = mockAnswerStream()
+    const user = await ask('What is a salos?')
+    answer.send({ type: 'token', text: 'A Byzantine holy fool.' })
+    answer.send({ type: 'done' })
+    answer.end()
+    await screen.findByRole('button', { name: 'Send' })
+
+    mockAnswerStream()
+    await user.type(screen.getByPlaceholderText('Ask a question...'), 'Who was the most famous one?')
+    await user.click(screen.getByRole('button', { name: 'Send' }))
+
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[1][1]!.body as string)
+    expect(body).toEqual({
+      message: 'Who was the most famous one?',
+      slug: 'preface',
+      context: [
+        { role: 'user', content: 'What is a salos?' },
+        { role: 'assistant', content: 'A Byzantine holy fool.' }
+      ]
+    })
+  })
+
+  it('should not send found sources or error notices as turns', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({ sources: [] })))
+    const user = userEvent.setup()
+    render(<AIChat slug="preface" />)
+    await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+    await user.click(screen.getByRole('button', { name: 'Find Sources' }))
+    await screen.findByText('Found 0 academic sources:')
+
+    const failed = mockAnswerStream()
+    await user.type(screen.getByPlaceholderText('Ask a question...'), 'What is a salos?')
+    await user.click(screen.getByRole('button', { name: 'Send' }))
+    failed.send({ type: 'error', error: 'AI service error', code: 'AI_SERVICE_ERROR' })
+    failed.end()
+    await screen.findByRole('alert')
+
+    mockAnswerStream()
+    await user.type(screen.getByPlaceholderText('Ask a question...'), 'Who was Symeon?')
+    await user.click(screen.getByRole('button', { name: 'Send' }))
+
+    expect(JSON.parse(vi.mocked(global.fetch).mock.calls[2][1]!.body as string).context).toEqual([])
+  })
+
+  it('should link citations to the cited sections and flag unsupported ones', async () => {
+    const answer = mockAnswerStream()
+    await ask('Where does the mast wander?')
+
+    answer.send({ type: 'token', text: 'Between shrines [majdhub#in-sind]. Fed by villagers [majdhub#in-punjab] [1].' })
+    answer.send({
+      type: 'citations',
+      sources: [{ key: 'majdhub#in-sind', slug: 'majdhub', anchor: 'in-sind', title: 'Majdhub / Mast', heading: 'In Sind' }],
+      unsupported: [{ key: 'majdhub#in-punjab', claim: 'Fed by villagers [majdhub#in-punjab].' }]
+    })
+    answer.send({ type: 'done' })
+    answer.end()
+
+    expect(await screen.findByRole('link', { name: 'In Sind' })).toHaveAttribute('href', '/wiki/majdhub#in-sind')
+    expect(screen.getByText('majdhub#in-punjab')).not.toHaveAttribute('href')
+    expect(screen.getByText(/\[1\]/)).toBeInTheDocument()
+    expect(screen.getByText(/Some claims cite sources this answer was not based on/)).toBeInTheDocument()
+  })
+
+  it('should send earlier answers without their sources', async () => {
+    const answer = mockAnswerStream()
+    const user = await ask('Where does the mast wander?')
+    answer.send({ type: 'token', text: 'Between shrines [majdhub#in-sind].' })
+    answer.send({
+      type: 'citations',
+      sources: [{ key: 'majdhub#in-sind', slug: 'majdhub', anchor: 'in-sind', title: 'Majdhub / Mast', heading: 'In Sind' }],
+      unsupported: []
+    })
+    answer.send({ type: 'done' })
+    answer.end()
+    await screen.findByRole('link', { name: 'In Sind' })
+
+    mockAnswerStream()
+    await user.type(screen.getByPlaceholderText('Ask a question...'), 'And in Punjab?')
+    await user.click(screen.getByRole('button', { name: 'Send' }))
+
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[1][1]!.body as string)
+    expect(body.context[1]).toEqual({ role: 'assistant', content: 'Between shrines [majdhub#in-sind].' })
+  })
+
+  it('should render answers as markdown without raw HTML', async () => {
+    const answer = mockAnswerStream()
+    await ask('What is a salos?')
+
+    answer.send({ type: 'token', text: '**Saloi** were:\n\n- Byzantine\n- see [the preface](/wiki/preface)\n\n<script>alert(1)</script>' })
+    answer.send({ type: 'done' })
+    answer.end()
+
+    expect(await screen.findByText('Saloi')).toContainHTML('<strong>Saloi</strong>')
+    expect(screen.getAllByRole('listitem')).toHaveLength(2)
+    expect(screen.getByRole('link', { name: 'the preface' })).toHaveAttribute('href', '/wiki/preface')
+    expect(document.querySelector('script')).toBeNull()
+  })
+
+  it('should show found sources as cards and copy their citation', async () => {
+    const user = userEvent.setup()
+    const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockResolvedValue()
+    vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify({
+      sources: [{ title: 'Holy Fools in Byzantium', url: 'https://www.jstor.org/stable/1291', snippet: 'The salos feigned madness.', score: 0.9 }]
+    })))
+
+    render(<AIChat slug="preface" />)
+    await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+    await user.click(screen.getByText('Find Sources'))
+
+    expect(await screen.findByRole('link', { name: 'Holy Fools in Byzantium' })).toHaveAttribute('href', 'https://www.jstor.org/stable/1291')
+    expect(screen.getByText('jstor.org')).toBeInTheDocument()
+    expect(screen.getByText('The salos feigned madness.')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Copy citation for Holy Fools in Byzantium' }))
+
+    expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/^Holy Fools in Byzantium\. jstor\.org\. https:\/\/www\.jstor\.org\/stable\/1291 \(accessed /))
+    expect(await screen.findByText('Copied')).toBeInTheDocument()
+  })
+
+  it('should open and explain selected text with its section', async () => {
+    mockAnswerStream()
+    render(<AIChat slug="majdhub" />)
+
+    act(() => openChat({ action: 'explain', selection: { text: 'The mast wanders between shrines.', heading: 'In Sind' } }))
+
+    expect(await screen.findByText('Explain this passage')).toBeInTheDocument()
+    expect(screen.getByText('The mast wanders between shrines.')).toBeInTheDocument()
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string)
+    expect(body).toMatchObject({
+      message: 'Explain this passage',
+      slug: 'majdhub',
+      selectedText: 'The mast wanders between shrines.',
+      selectedHeading: 'In Sind'
+    })
+  })
+
+  it('should attach selected text to the next question when asking about it', async () => {
+    mockAnswerStream()
+    const user = userEvent.setup()
+    render(<AIChat slug="majdhub" />)
+
+    act(() => openChat({ action: 'ask', selection: { text: 'The mast wanders between shrines.', heading: 'In Sind' } }))
+
+    const input = await screen.findByPlaceholderText('Ask about the selected text...')
+    expect(screen.getByText('In Sind')).toBeInTheDocument()
+    await user.type(input, 'Which shrines?')
+    await user.click(screen.getByRole('button', { name: 'Send' }))
+
+    const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string)
+    expect(body).toMatchObject({ message: 'Which shrines?', selectedText: 'The mast wanders between shrines.' })
+    expect(screen.queryByRole('button', { name: 'Remove selected text' })).not.toBeInTheDocument()
+  })
+
+  it('should find sources for selected text', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify({ sources: [] })))
+    render(<AIChat slug="majdhub" />)
+
+    act(() => openChat({ action: 'sources', selection: { text: 'The mast wanders between shrines.', heading: 'In Sind' } }))
+
+    expect(await screen.findByText('Found 0 academic sources:')).toBeInTheDocument()
+    expect(JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string)).toEqual({
+      query: 'In Sind: The mast wanders between shrines.'
+    })
+  })
+
+  it('should save the conversation with the model once the answer is complete', async () => {
+    const answer = mockAnswerStream()
+    await ask('What is a salos?')
+
+    answer.send({ type: 'token', text: 'A Byzantine holy fool.' })
+    answer.send({ type: 'done' })
+    answer.end()
+    await screen.findByRole('button', { name: 'Send' })
+
+    const [saved] = storedSessions.values()
+    expect(saved).toMatchObject({
+      slug: 'preface',
+      title: 'What is a salos?',
+      messages: [
+        { role: 'user', content: 'What is a salos?' },
+        { role: 'assistant', content: 'A Byzantine holy fool.', model: 'anthropic/claude-sonnet-4.5' }
+      ]
+    })
+  })
+
+  it('should pick up the latest conversation of the page', async () => {
+    storedSessions.set('old', savedSession('old', 'preface', 'What is a salos?', '2026-10-18T10:00:00.000Z'))
+    storedSessions.set('new', savedSession('new', 'preface', 'Who was Symeon?', '2026-10-19T10:00:00.000Z'))
+    storedSessions.set('other', savedSession('other', 'majdhub', 'What is a mast?', '2026-10-20T10:00:00.000Z'))
+    const user = userEvent.setup()
+    render(<AIChat slug="preface" />)
+
+    await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+
+    expect(await screen.findByText('Answer to: Who was Symeon?')).toBeInTheDocument()
+  })
+
+  it('should keep conversations off wiki pages for no page', async () => {
+    storedSessions.set('page', savedSession('page', 'preface', 'What is a salos?', '2026-10-20T10:00:00.000Z'))
+    storedSessions.set('global', savedSession('global', null, 'Who was Symeon?', '2026-10-19T10:00:00.000Z'))
+    const user = userEvent.setup()
+    render(<AIChat />)
+    await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+    expect(await screen.findByText('Answer to: Who was Symeon?')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'New conversation' }))
+    const answer = mockAnswerStream()
+    await user.type(screen.getByPlaceholderText('Ask a question...'), 'What is a mast?')
+    await user.click(screen.getByRole('button', { name: 'Send' }))
+    answer.send({ type: 'token', text: 'A wandering majdhub.' })
+    answer.send({ type: 'done' })
+    answer.end()
+    await screen.findByRole('button', { name: 'Send' })
+
+    expect(JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string).slug).toBeUndefined()
+    expect([...storedSessions.values()].find(session => session.title === 'What is a mast?')).toMatchObject({ slug: null })
+  })
+
+  it('should list, open and delete saved conversations', async () => {
+    storedSessions.set('old', savedSession('old', 'preface', 'What is a salos?', '2026-10-18T10:00:00.000Z'))
+    storedSessions.set('other', savedSession('other', 'majdhub', 'What is a mast?', '2026-10-20T10:00:00.000Z'))
+    const user = userEvent.setup()
+    render(<AIChat slug="preface" />)
+    await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+    await screen.findByText('Answer to: What is a salos?')
+
+    await user.click(screen.getByRole('button', { name: 'Saved conversations' }))
+    expect(await screen.findByText('What is a salos?')).toBeInTheDocument()
+    expect(screen.queryByText('What is a mast?')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('tab', { name: 'All pages' }))
+    await user.click(await screen.findByText('What is a mast?'))
+    expect(await screen.findByText('Answer to: What is a mast?')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Saved conversations' }))
+    await user.click(await screen.findByRole('button', { name: 'Delete conversation "What is a salos?"' }))
+    expect(storedSessions.has('old')).toBe(false)
+    expect(screen.queryByText('What is a salos?')).not.toBeInTheDocument()
+  })
+
+  it('should export the conversation as Markdown and JSON', async () => {
+    storedSessions.set('old', savedSession('old', 'preface', 'What is a salos?', '2026-10-18T10:00:00.000Z'))
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:chat')
+    URL.createObjectURL = createObjectURL
+    URL.revokeObjectURL = vi.fn()
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    const user = userEvent.setup()
+    render(<AIChat slug="preface" />)
+    await user.click(screen.getByRole('button', { name: /open ai research assistant/i }))
+    await screen.findByText('Answer to: What is a salos?')
+
+    await user.click(screen.getByRole('button', { name: 'Export as Markdown' }))
+    await user.click(screen.getByRole('button', { name: 'Export as JSON' }))
+
+    // jsdom's Blob has no text()
+    const readBlob = (blob: Blob) => new Promise<string>(resolve => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(blob)
+    })
+    expect(await readBlob(createObjectURL.mock.calls[0][0])).toContain('- Model: anthropic/claude-3.5-haiku')
+    expect(JSON.parse(await readBlob(createObjectURL.mock.calls[1][0]))).toMatchObject({ id: 'old', slug: 'preface' })
+    expect((click.mock.contexts as HTMLAnchorElement[]).map(link => link.download)).toEqual(['preface-2026-10-18.md', 'preface-2026-10-18.json'])
+    click.mockRestore()
+  })
+
+  it('should show an error when the answer fails', async () => {
+    const answer = mockAnswerStream()
+    await ask('What is a salos?')
+
+    answer.send({ type: 'error', error: 'AI service error', code: 'AI_SERVICE_ERROR' })
+    answer.end()
+
+    expect(await screen.findByText(/Sorry, I encountered an error/)).toBeInTheDocument()
+  })
+
+  it('should not save error notices with the conversation', async () => {
+    const answer = mockAnswerStream()
+    await ask('What is a salos?')
+
+    answer.send({ type: 'token', text: 'A Byzantine' })
+    answer.send({ type: 'error', error: 'AI service error', code: 'AI_SERVICE_ERROR' })
+    answer.end()
+    expect(await screen.findByRole('alert')).toHaveTextContent(/Sorry, I encountered an error/)
+
+    const [saved] = storedSessions.values()
+    expect(saved.messages).toEqual([
+      { role: 'user', content: 'What is a salos?' },
+      { role: 'assistant', content: 'A Byzantine' }
+    ])
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { Backlinks } from '@/components/Backlinks'
+
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement>) => {
+    return <a href={href} {...props}>{children}</a>
+  }
+}))
+
+describe('Backlinks', () => {
+  it('should render nothing without backlinks', () => {
+    const { container } = render(<Backlinks links={[]} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should show the sections an inline mention appears in, deep-linked', () => {
+    render(
+      <Backlinks
+        links={[{
+          page: { slug: 'preface', title: 'Preface' },
+          types: ['inline'],
+          count: 3,
+          sections: [
+            { id: 'origins', title: 'Origins' },
+            { id: 'method', title: 'Method' }
+          ],
+          mentions: []
+        }]}
+      />
+    )
+
+    expect(screen.getByText(/Mentioned in sections/)).toHaveTextContent('Mentioned in sections Origins, Method of Preface (3 mentions)')
+    expect(screen.getByRole('link', { name: 'Origins' })).toHaveAttribute('href', '/wiki/preface#origins')
+  })
+
+  it('should describe frontmatter-only links', () => {
+    render(
+      <Backlinks
+        links={[{
+          page: { slug: 'geel', title: 'Geel' },
+          types: ['seeAlso'],
+          count: 0,
+          sections: [],
+          mentions: []
+        }]}
+      />
+    )
+
+    expect(screen.getByText('Listed under See Also in Geel')).toBeInTheDocument()
+  })
+
+  it('should show each mention in context with the anchor highlighted', () => {
+    const mention = (line: number, section?: { id: string; title: string }) => ({
+      slug: 'majdhub',
+      line,
+      column: 5,
+      text: 'the attracted',
+      context: { before: 'Compare ', anchor: 'the attracted', after: ` in line ${line}.` },
+      ...(section ? { section } : {})
+    })
+
+    const { container } = render(
+      <Backlinks
+        links={[{
+          page: { slug: 'preface', title: 'Preface' },
+          types: ['inline'],
+          count: 5,
+          sections: [{ id: 'origins', title: 'Origins' }],
+          mentions: [mention(3), mention(7, { id: 'origins', title: 'Origins' }), mention(9), mention(11), mention(13)]
+        }]}
+      />
+    )
+
+    const marks = container.querySelectorAll('mark')
+    expect(marks).toHaveLength(3)
+    expect(marks[0]).toHaveTextContent('the attracted')
+    expect(marks[0].parentElement).toHaveTextContent('Compare the attracted in line 3.')
+    expect(screen.getByRole('link', { name: '§ Origins' })).toHaveAttribute('href', '/wiki/preface#origins')
+    expect(screen.getAllByRole('link', { name: 'Go to Preface' })[0]).toHaveAttribute('href', '/wiki/preface')
+    expect(screen.getByText('And 2 more mentions...')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { KnowledgeGraph } from '@/components/KnowledgeGraph'
+import type { GraphData } from '@/lib/graph-builder'
+
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement>) => {
+    return <a href={href} {...props}>{children}</a>
+  }
+}))
+
+const data: GraphData = {
+  nodes: [
+    { slug: 'preface', title: 'Preface', category: 'Introduction', keywords: ['geel'], description: 'Why this book exists' },
+    { slug: 'majdhub', title: 'Majdhub', category: 'Sufi Traditions', keywords: ['mast'] },
+    { slug: 'geel', title: 'St. Dymphna and Geel', category: 'Mental Health', keywords: [] }
+  ],
+  edges: [
+    { from: 'preface', to: 'majdhub' },
+    { from: 'geel', to: 'preface' }
+  ]
+}
+
+describe('KnowledgeGraph', () => {
+  it('should render one node per page', () => {
+    const { container } = render(<KnowledgeGraph data={data} />)
+
+    expect(container.querySelectorAll('g[data-slug]')).toHaveLength(3)
+    expect(container.querySelectorAll('line')).toHaveLength(2)
+  })
+
+  it('should provide an accessible list of pages and their connections', () => {
+    render(<KnowledgeGraph data={data} />)
+
+    const nav = screen.getByRole('navigation', { name: 'Pages in this graph' })
+    expect(nav).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Preface' })).toHaveAttribute('href', '/wiki/preface')
+    expect(nav).toHaveTextContent('connected to Majdhub, St. Dymphna and Geel')
+  })
+
+  it('should show a description preview on hover', async () => {
+    const user = userEvent.setup()
+    const { container } = render(<KnowledgeGraph data={data} />)
+
+    await user.hover(container.querySelector('g[data-slug="preface"]')!)
+
+    expect(screen.getByText('Why this book exists')).toBeInTheDocument()
+  })
+
+  it('should filter by category and keyword', async () => {
+    const user = userEvent.setup()
+    const { container } = render(<KnowledgeGraph data={data} showFilters />)
+
+    await user.selectOptions(screen.getByRole('combobox'), 'Sufi Traditions')
+    expect(container.querySelectorAll('g[data-slug]')).toHaveLength(1)
+
+    await user.selectOptions(screen.getByRole('combobox'), '')
+    await user.type(screen.getByPlaceholderText('Filter by title or keyword...'), 'geel')
+    expect([...container.querySelectorAll('g[data-slug]')].map(g => g.getAttribute('data-slug')))
+      .toEqual(['preface', 'geel'])
+  })
+
+  it('should keep the focused page visible in local graph mode', () => {
+    const { container } = render(<KnowledgeGraph data={data} focusSlug="majdhub" />)
+
+    expect(container.querySelector('g[data-slug="majdhub"] circle')).toHaveAttribute('r')
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SearchPalette } from '@/components/SearchPalette'
+import type { SearchApiResponse } from '@/lib/search-client'
+
+const push = vi.fn()
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push })
+}))
+
+const SEARCH_ID = '5f0c7a52-3f4e-4c1b-9a57-2d8e6b1c9e40'
+
+const response: SearchApiResponse = {
+  searchId: SEARCH_ID,
+  query: 'geel',
+  sanitizedQuery: 'geel',
+  total: 2,
+  count: 2,
+  page: 1,
+  pageSize: 8,
+  totalPages: 1,
+  sort: 'relevance',
+  collection: null,
+  corrections: [],
+  facets: { collections: [], categories: [], keywords: [] },
+  results: [
+    {
+      slug: 'st-dymphna',
+      collection: 'chapters',
+      title: 'St. Dymphna and Geel',
+      description: 'The town that took in the mad',
+      category: 'Mental Health & Care',
+      keywords: [],
+      wordCount: 4000,
+      score: 5.2,
+      snippets: [
+        {
+          text: 'Pilgrims came to Geel.',
+          highlights: [[17, 21]],
+          section: { id: 'pilgrims', title: 'Pilgrims' },
+          url: 'https://sacred-madness.vercel.app/wiki/st-dymphna#pilgrims'
+        }
+      ],
+      url: 'https://sacred-madness.vercel.app/wiki/st-dymphna'
+    },
+    {
+      slug: 'preface',
+      collection: 'chapters',
+      title: 'Preface',
+      description: '',
+      category: 'Introduction',
+      keywords: [],
+      wordCount: 900,
+      score: 1.1,
+      snippets: [],
+      url: 'https://sacred-madness.vercel.app/wiki/preface'
+    }
+  ]
+}
+
+describe('SearchPalette', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+    vi.mocked(global.fetch).mockResolvedValue({ ok: true, json: async () => response } as Response)
+  })
+
+  it('should open with Ctrl-K and show recent searches', async () => {
+    localStorage.setItem('sacred-madness:recent-searches', JSON.stringify(['majdhub', 'holy fool']))
+    const user = userEvent.setup()
+    render(<SearchPalette />)
+
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument()
+
+    await user.keyboard('{Control>}k{/Control}')
+
+    expect(screen.getByRole('combobox')).toHaveFocus()
+    expect(screen.getByText('Recent searches')).toBeInTheDocument()
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['majdhub', 'holy fool'])
+  })
+
+  it('should search once typing pauses and group pages and headings', async () => {
+    const user = userEvent.setup()
+    render(<SearchPalette />)
+
+    await user.click(screen.getByRole('button', { name: 'Search the wiki' }))
+    await user.type(screen.getByRole('combobox'), 'geel')
+
+    await waitFor(() => expect(screen.getByText('Headings')).toBeInTheDocument())
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+    expect(global.fetch).toHaveBeenCalledWith('/api/search?q=geel&pageSize=8', expect.anything())
+
+    expect(screen.getByText('Pages')).toBeInTheDocument()
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual([
+      'St. Dymphna and GeelPilgrims came to Geel.',
+      'Preface',
+      'PilgrimsSt. Dymphna and Geel',
+      'See all 2 results for "geel"'
+    ])
+    expect(screen.getByText('Geel', { selector: 'mark' })).toBeInTheDocument()
+  })
+
+  it('should navigate with the keyboard, report the click and remember the search', async () => {
+    const user = userEvent.setup()
+    render(<SearchPalette />)
+
+    await user.keyboard('{Control>}k{/Control}')
+    await user.type(screen.getByRole('combobox'), 'geel')
+    await waitFor(() => expect(screen.getByText('Headings')).toBeInTheDocument())
+
+    await user.keyboard('{ArrowDown}{ArrowDown}')
+    expect(screen.getAllByRole('option')[2]).toHaveAttribute('aria-selected', 'true')
+
+    await user.keyboard('{Enter}')
+
+    expect(push).toHaveBeenCalledWith('/wiki/st-dymphna#pilgrims')
+    expect(global.fetch).toHaveBeenCalledWith('/api/search/click', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ searchId: SEARCH_ID, slug: 'st-dymphna', position: 1 })
+    }))
+    expect(JSON.parse(localStorage.getItem('sacred-madness:recent-searches')!)).toEqual(['geel'])
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument()
+  })
+
+  it('should link to the full results page', async () => {
+    const user = userEvent.setup()
+    render(<SearchPalette />)
+
+    await user.keyboard('{Control>}k{/Control}')
+    await user.type(screen.getByRole('combobox'), 'geel')
+    await user.click(await screen.findByText('See all 2 results for "geel"'))
+
+    expect(push).toHaveBeenCalledWith('/search?q=geel')
+    expect(global.fetch).not.toHaveBeenCalledWith('/api/search/click', expect.anything())
+  })
+
+  it('should mark a query edited after results arrived as refining the previous search', async () => {
+    const user = userEvent.setup()
+    render(<SearchPalette />)
+
+    await user.keyboard('{Control>}k{/Control}')
+    await user.type(screen.getByRole('combobox'), 'gee')
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1))
+    await screen.findByText('Headings')
+    await user.type(screen.getByRole('combobox'), 'l')
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(2))
+    expect(global.fetch).toHaveBeenLastCalledWith(`/api/search?q=geel&pageSize=8&refines=${SEARCH_ID}`, expect.anything())
+  })
+})
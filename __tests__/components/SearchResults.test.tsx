@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SearchResults, withFilter } from '@/components/SearchResults'
+import type { SearchApiResponse } from '@/lib/search-client'
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn() })
+}))
+
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement>) => {
+    return <a href={href} {...props}>{children}</a>
+  }
+}))
+
+const response: SearchApiResponse = {
+  searchId: '5f0c7a52-3f4e-4c1b-9a57-2d8e6b1c9e40',
+  query: 'geel OR dymphna',
+  sanitizedQuery: 'geel OR dymphna',
+  total: 1,
+  count: 1,
+  page: 1,
+  pageSize: 10,
+  totalPages: 1,
+  sort: 'relevance',
+  collection: null,
+  corrections: [],
+  facets: {
+    collections: [],
+    categories: [{ value: 'Mental Health & Care', count: 1 }],
+    keywords: []
+  },
+  results: [
+    {
+      slug: 'st-dymphna',
+      collection: 'chapters',
+      title: 'St. Dymphna and Geel',
+      description: 'The town that took in the mad',
+      category: 'Mental Health & Care',
+      keywords: [],
+      wordCount: 4000,
+      score: 5.2,
+      snippets: [],
+      url: 'https://sacred-madness.vercel.app/wiki/st-dymphna'
+    }
+  ]
+}
+
+describe('SearchResults', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(global.fetch).mockResolvedValue({ ok: true, json: async () => response } as Response)
+  })
+
+  it('should add a facet filter to the whole query', () => {
+    expect(withFilter('geel', 'category', 'Mental Health & Care')).toBe('geel category:"Mental Health & Care"')
+    expect(withFilter('geel OR dymphna', 'collection', 'papers')).toBe('(geel OR dymphna) collection:"papers"')
+    expect(withFilter('(geel OR dymphna) mast', 'keyword', 'alevi')).toBe('(geel OR dymphna) mast keyword:"alevi"')
+  })
+
+  it('should filter every alternative of an OR query by the facet clicked', async () => {
+    const user = userEvent.setup()
+    const { rerender } = render(<SearchResults query="geel OR dymphna" page={1} sort="relevance" />)
+
+    const facet = await screen.findByRole('link', { name: /Mental Health & Care/ })
+    facet.addEventListener('click', event => event.preventDefault())
+    await user.click(facet)
+
+    const query = new URL(facet.getAttribute('href')!, 'http://localhost').searchParams.get('q')!
+    expect(query).toBe('(geel OR dymphna) category:"Mental Health & Care"')
+
+    rerender(<SearchResults query={query} page={1} sort="relevance" />)
+    await screen.findByText(/results? for "\(geel OR dymphna\)/)
+
+    const url = new URL(vi.mocked(global.fetch).mock.calls[1][0] as string, 'http://localhost')
+    expect(url.searchParams.get('q')).toBe('(geel OR dymphna) category:"Mental Health & Care"')
+  })
+})
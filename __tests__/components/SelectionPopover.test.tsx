@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SelectionPopover, findSectionHeading } from '@/components/SelectionPopover'
+import { OPEN_CHAT_EVENT, type OpenChatRequest } from '@/lib/chat-client'
+
+function Page() {
+  return (
+    <>
+      <nav><p>Contents of the book</p></nav>
+      <article>
+        <h2>In Sind</h2>
+        <p>The mast wanders between shrines.</p>
+        <h2>In Punjab</h2>
+        <p>The majdhub is fed by villagers.</p>
+      </article>
+      <SelectionPopover />
+    </>
+  )
+}
+
+function select(text: string) {
+  const node = screen.getByText(text).firstChild!
+  const range = document.createRange()
+  range.selectNodeContents(node)
+  const selection = window.getSelection()!
+  selection.removeAllRanges()
+  selection.addRange(range)
+  fireEvent.mouseUp(document)
+}
+
+describe('SelectionPopover', () => {
+  beforeAll(() => {
+    // jsdom does not lay out text
+    Range.prototype.getBoundingClientRect = () => new DOMRect(100, 200, 80, 16)
+  })
+
+  it('should open the chat with the selection and its section', async () => {
+    const user = userEvent.setup()
+    const onOpenChat = vi.fn()
+    const listener = (event: Event) => onOpenChat((event as CustomEvent<OpenChatRequest>).detail)
+    window.addEventListener(OPEN_CHAT_EVENT, listener)
+    render(<Page />)
+
+    act(() => select('The majdhub is fed by villagers.'))
+    await user.click(screen.getByRole('button', { name: 'Explain' }))
+
+    expect(onOpenChat).toHaveBeenCalledWith({
+      action: 'explain',
+      selection: { text: 'The majdhub is fed by villagers.', heading: 'In Punjab' }
+    })
+    expect(screen.queryByRole('toolbar')).not.toBeInTheDocument()
+    window.removeEventListener(OPEN_CHAT_EVENT, listener)
+  })
+
+  it('should ignore selections outside the article', () => {
+    render(<Page />)
+
+    act(() => select('Contents of the book'))
+
+    expect(screen.queryByRole('toolbar')).not.toBeInTheDocument()
+  })
+
+  it('should find no section before the first heading', () => {
+    render(<article><p>Preface text</p><h2>In Sind</h2></article>)
+    const article = document.querySelector('article')!
+
+    expect(findSectionHeading(screen.getByText('Preface text'), article)).toBeUndefined()
+    expect(findSectionHeading(screen.getByText('In Sind').firstChild!, article)).toBe('In Sind')
+  })
+})
@@ -0,0 +1,22 @@
+import { join } from 'path'
+import type { ContentPage } from '@/lib/content'
+
+/**
+ * A chapter page as loadAllPages returns it, for tests that mock lib/content
+ * `source` may start with a frontmatter block; `content` is the text after it.
+ */
+export function mockContentPage(slug: string, source: string, overrides: Partial<ContentPage['frontmatter']> = {}): ContentPage {
+  const content = source.replace(/^---[\s\S]*?---\n/, '')
+  const frontmatter = { title: slug, keywords: [], related: [], seeAlso: [], ...overrides }
+  return {
+    slug,
+    collection: 'chapters',
+    frontmatter,
+    content,
+    source,
+    lineOffset: source.split('\n').length - content.split('\n').length,
+    hash: JSON.stringify([slug, frontmatter, source]),
+    filePath: join(process.cwd(), 'content/chapters', `${slug}.md`),
+    mtimeMs: 0
+  }
+}
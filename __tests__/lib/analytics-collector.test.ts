@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeSearchLog, mapAnalyticsToGaps, type UserBehaviorAnalysis } from '@/lib/monitoring/analytics-collector'
+import type { SearchLogEvent } from '@/lib/search-log'
+
+const AT = '2026-01-01T10:00:00.000Z'
+
+function search(id: string, query: string, results: number, extra: { corrected?: boolean; refines?: string } = {}): SearchLogEvent {
+  return { type: 'search', id, at: AT, query, results, corrected: extra.corrected ?? false, ...(extra.refines ? { refines: extra.refines } : {}) }
+}
+
+function click(id: string): SearchLogEvent {
+  return { type: 'click', id, at: AT, slug: 'geel', position: 1 }
+}
+
+describe('analytics-collector', () => {
+  describe('analyzeSearchLog', () => {
+    it('should report zero-result queries as missing content', () => {
+      expect(analyzeSearchLog([search('1', 'hidrellez', 0), search('2', 'hidrellez', 0)])).toEqual([
+        { query: 'hidrellez', attempts: 2, success_rate: 0, suggests: 'missing_content' }
+      ])
+    })
+
+    it('should report rarely clicked and misspelled queries as terminology gaps', () => {
+      const patterns = analyzeSearchLog([
+        search('1', 'madness', 5), search('2', 'madness', 5), search('3', 'madness', 5),
+        search('4', 'geel', 2), search('5', 'geel', 2), click('4'),
+        search('6', 'majdub', 1, { corrected: true }), search('7', 'majdub', 1, { corrected: true }), click('6'), click('7')
+      ])
+
+      expect(patterns).toEqual([
+        { query: 'madness', attempts: 3, success_rate: 0, suggests: 'terminology_gap' },
+        { query: 'majdub', attempts: 2, success_rate: 1, suggests: 'terminology_gap' }
+      ])
+    })
+
+    it('should ignore partial queries refined while typing and one-off searches', () => {
+      const patterns = analyzeSearchLog([
+        search('1', 'ge', 0), search('2', 'geel', 2, { refines: '1' }), click('2'),
+        search('3', 'ge', 0), search('4', 'geel', 2, { refines: '3' }), click('4'),
+        search('5', 'typo', 0)
+      ])
+
+      expect(patterns).toEqual([])
+    })
+  })
+
+  describe('mapAnalyticsToGaps', () => {
+    it('should turn failed searches into gaps of the suggested type', () => {
+      const analytics: UserBehaviorAnalysis = {
+        period: '',
+        section_engagement: {},
+        chat_confusion_patterns: [],
+        failed_searches: [
+          { query: 'hidrellez', attempts: 4, success_rate: 0, suggests: 'missing_content' },
+          { query: 'madness', attempts: 3, success_rate: 0, suggests: 'terminology_gap' }
+        ],
+        high_bounce_sections: [],
+        low_completion_sections: []
+      }
+
+      expect(mapAnalyticsToGaps(analytics).map(gap => [gap.type, gap.priority])).toEqual([
+        ['missing_content', 4],
+        ['terminology_gap', 3]
+      ])
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createCachedLoader, samePageHashes } from '@/lib/cached-loader'
+import { mockContentPage } from '@/__tests__/helpers/content'
+
+describe('cached-loader', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  const setup = (pages: { current: string[] }, prebuilt?: () => Promise<string | null>) => {
+    const build = vi.fn((inputs: string[]) => inputs.join(' '))
+    const loader = createCachedLoader({
+      read: async () => [...pages.current],
+      unchanged: (previous, current) => previous.join() === current.join(),
+      build,
+      prebuilt
+    })
+    return { build, loader }
+  }
+
+  it('should rebuild only when the inputs change', async () => {
+    const pages = { current: ['geel'] }
+    const { build, loader } = setup(pages)
+
+    expect(await loader.load()).toBe('geel')
+    expect(await loader.load()).toBe('geel')
+    expect(build).toHaveBeenCalledTimes(1)
+
+    pages.current = ['geel', 'majdhub']
+    expect(await loader.load()).toBe('geel majdhub')
+    expect(build).toHaveBeenCalledTimes(2)
+  })
+
+  it('should share one build between concurrent loads', async () => {
+    const { build, loader } = setup({ current: ['geel'] })
+
+    await Promise.all([loader.load(), loader.load(), loader.load()])
+
+    expect(build).toHaveBeenCalledTimes(1)
+  })
+
+  it('should build again once cleared', async () => {
+    const { build, loader } = setup({ current: ['geel'] })
+
+    await loader.load()
+    loader.clear()
+    await loader.load()
+
+    expect(build).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep the first value in production, preferring a prebuilt one', async () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    const pages = { current: ['geel'] }
+    const { build, loader } = setup(pages, async () => 'prebuilt')
+
+    expect(await loader.load()).toBe('prebuilt')
+    pages.current = ['majdhub']
+    expect(await loader.load()).toBe('prebuilt')
+    expect(build).not.toHaveBeenCalled()
+  })
+
+  it('should compare pages by slug and content hash', () => {
+    const geel = mockContentPage('geel', 'Geel is a town in Flanders.')
+
+    expect(samePageHashes([geel], [mockContentPage('geel', 'Geel is a town in Flanders.')])).toBe(true)
+    expect(samePageHashes([geel], [mockContentPage('geel', 'Geel welcomed pilgrims.')])).toBe(false)
+    expect(samePageHashes([geel], [])).toBe(false)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  conversationTurns,
+  createSession,
+  exportSessionJson,
+  exportSessionMarkdown,
+  listSessions,
+  saveSession,
+  sessionFileName,
+  sessionModels,
+  sessionTitle,
+  type ChatSession
+} from '@/lib/chat-sessions'
+
+const session: ChatSession = {
+  id: 'session-1',
+  slug: 'majdhub',
+  title: 'Where does the mast wander?',
+  createdAt: '2026-10-19T09:30:00.000Z',
+  updatedAt: '2026-10-19T09:32:00.000Z',
+  messages: [
+    {
+      role: 'user',
+      content: 'Where does the mast wander?',
+      selection: { text: 'The mast wanders between shrines.', heading: 'In Sind' }
+    },
+    {
+      role: 'assistant',
+      content: 'Between shrines [majdhub#in-sind]. Fed by villagers [majdhub#in-punjab].',
+      model: 'anthropic/claude-sonnet-4.5',
+      sources: [{ key: 'majdhub#in-sind', slug: 'majdhub', anchor: 'in-sind', title: 'Majdhub / Mast', heading: 'In Sind' }],
+      unsupported: [{ key: 'majdhub#in-punjab', claim: 'Fed by villagers [majdhub#in-punjab].' }]
+    },
+    {
+      role: 'assistant',
+      content: 'Found 1 academic sources:',
+      webSources: [{ title: 'Holy Fools in Byzantium', url: 'https://www.jstor.org/stable/1291', snippet: 'The salos feigned madness.' }]
+    }
+  ]
+}
+
+describe('chat-sessions', () => {
+  it('should title a conversation by its first question', () => {
+    expect(sessionTitle(session.messages)).toBe('Where does the mast wander?')
+    expect(sessionTitle([])).toBe('New conversation')
+    expect(sessionTitle([{ role: 'user', content: 'word '.repeat(40) }])).toHaveLength(80)
+  })
+
+  it('should send only answered questions and their answers as turns', () => {
+    const failed = [{ role: 'user' as const, content: 'And in Punjab?' }, { role: 'assistant' as const, content: '' }]
+
+    expect(conversationTurns([...session.messages, ...failed])).toEqual([
+      { role: 'user', content: 'Where does the mast wander?' },
+      { role: 'assistant', content: 'Between shrines [majdhub#in-sind]. Fed by villagers [majdhub#in-punjab].' }
+    ])
+  })
+
+  it('should start sessions for a page or for no page', () => {
+    const now = new Date('2026-10-19T09:30:00Z')
+
+    expect(createSession('majdhub', now)).toMatchObject({ slug: 'majdhub', createdAt: '2026-10-19T09:30:00.000Z', messages: [] })
+    expect(createSession(undefined, now).slug).toBeNull()
+    expect(createSession().id).not.toBe(createSession().id)
+  })
+
+  it('should export a session as Markdown with its page, model and sources', () => {
+    const markdown = exportSessionMarkdown(session, 'https://sacred-madness.vercel.app')
+
+    expect(markdown).toContain('# Where does the mast wander?\n')
+    expect(markdown).toContain('- Page: [majdhub](https://sacred-madness.vercel.app/wiki/majdhub)')
+    expect(markdown).toContain('- Model: anthropic/claude-sonnet-4.5')
+    expect(markdown).toContain('## Question\n\n> **In Sind**\n>\n> The mast wanders between shrines.\n\nWhere does the mast wander?')
+    expect(markdown).toContain('- [majdhub#in-sind] [Majdhub / Mast › In Sind](https://sacred-madness.vercel.app/wiki/majdhub#in-sind)')
+    expect(markdown).toContain('- [majdhub#in-punjab] Fed by villagers [majdhub#in-punjab].')
+    expect(markdown).toContain('- [Holy Fools in Byzantium](https://www.jstor.org/stable/1291) (jstor.org)')
+  })
+
+  it('should export a session as JSON with the models that answered', () => {
+    const exported = JSON.parse(exportSessionJson(session))
+
+    expect(exported).toMatchObject({ version: 1, slug: 'majdhub', models: ['anthropic/claude-sonnet-4.5'] })
+    expect(exported.messages[1].sources[0].key).toBe('majdhub#in-sind')
+    expect(sessionModels({ ...session, messages: [] })).toEqual([])
+  })
+
+  it('should name exported files by page and date', () => {
+    expect(sessionFileName(session, 'md')).toBe('majdhub-2026-10-19.md')
+    expect(sessionFileName({ ...session, slug: null }, 'json')).toBe('chat-2026-10-19.json')
+  })
+
+  it('should keep nothing without IndexedDB', async () => {
+    await expect(saveSession(session)).resolves.toBeUndefined()
+    expect(await listSessions('majdhub')).toEqual([])
+  })
+})
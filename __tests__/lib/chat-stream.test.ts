@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'
+import { formatServerSentEvent, proxyChatCompletion, readServerSentEvents, type ChatStreamEvent } from '@/lib/chat-stream'
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of events) items.push(item)
+  return items
+}
+
+const completionChunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`
+
+describe('chat-stream', () => {
+  describe('readServerSentEvents', () => {
+    it('should parse events split across chunks, skipping comments', async () => {
+      const events = await collect(readServerSentEvents(streamOf(
+        ': OPENROUTER PROCESSING\n\nevent: tok',
+        'en\ndata: {"text":"Sa',
+        'los"}\r\n\r\ndata: one\ndata: two\n\ndata: [DONE]'
+      )))
+
+      expect(events).toEqual([
+        { event: 'token', data: '{"text":"Salos"}' },
+        { event: 'message', data: 'one\ntwo' },
+        { event: 'message', data: '[DONE]' }
+      ])
+    })
+
+    it('should read back formatted events', async () => {
+      const events = await collect(readServerSentEvents(streamOf(
+        formatServerSentEvent({ type: 'token', text: 'Line one\nline two' }),
+        formatServerSentEvent({ type: 'done' })
+      )))
+
+      expect(events.map(({ event, data }) => [event, JSON.parse(data)])).toEqual([
+        ['token', { text: 'Line one\nline two' }],
+        ['done', {}]
+      ])
+    })
+  })
+
+  describe('proxyChatCompletion', () => {
+    it('should relay tokens and report usage when upstream finishes', async () => {
+      const onFinish = vi.fn()
+      const usage = { prompt_tokens: 120, completion_tokens: 2, prompt_tokens_details: { cached_tokens: 100 } }
+      const stream = proxyChatCompletion(streamOf(
+        `data: ${JSON.stringify({ choices: [{ delta: { role: 'assistant', content: '' } }] })}\n\n`,
+        completionChunk('Holy '),
+        completionChunk('fools'),
+        `data: ${JSON.stringify({ choices: [], usage })}\n\n`,
+        'data: [DONE]\n\n'
+      ), { onFinish })
+
+      const events = await collect(readServerSentEvents(stream))
+
+      expect(events.map(e => e.event)).toEqual(['token', 'token', 'done'])
+      expect(onFinish).toHaveBeenCalledWith({
+        text: 'Holy fools',
+        usage: { inputTokens: 120, outputTokens: 2, cachedTokens: 100 },
+        aborted: false
+      })
+    })
+
+    it('should send the events of a complete answer before done', async () => {
+      const onComplete = vi.fn(() => [{ type: 'citations' as const, sources: [], unsupported: [] }])
+      const stream = proxyChatCompletion(streamOf(completionChunk('Holy fools'), 'data: [DONE]\n\n'), { onFinish: vi.fn(), onComplete })
+
+      const events = await collect(readServerSentEvents(stream))
+
+      expect(onComplete).toHaveBeenCalledWith('Holy fools')
+      expect(events.map(e => e.event)).toEqual(['token', 'citations', 'done'])
+    })
+
+    it('should end the stream with an error event when completing the answer fails', async () => {
+      const onComplete = vi.fn((): ChatStreamEvent[] => { throw new Error('Citation check failed') })
+      const stream = proxyChatCompletion(streamOf(completionChunk('Holy fools'), 'data: [DONE]\n\n'), { onFinish: vi.fn(), onComplete })
+
+      expect((await collect(readServerSentEvents(stream))).map(e => [e.event, JSON.parse(e.data)])).toEqual([
+        ['token', { text: 'Holy fools' }],
+        ['error', { error: 'Citation check failed', code: 'COMPLETION_FAILED' }]
+      ])
+    })
+
+    it('should end with an error event when upstream fails or sends nothing', async () => {
+      const failed = proxyChatCompletion(streamOf(
+        completionChunk('Holy '),
+        `data: ${JSON.stringify({ error: { message: 'Provider overloaded' } })}\n\n`
+      ), { onFinish: vi.fn() })
+      const empty = proxyChatCompletion(streamOf('data: [DONE]\n\n'), { onFinish: vi.fn() })
+
+      expect((await collect(readServerSentEvents(failed))).map(e => [e.event, JSON.parse(e.data)])).toEqual([
+        ['token', { text: 'Holy ' }],
+        ['error', { error: 'Provider overloaded', code: 'AI_SERVICE_ERROR' }]
+      ])
+      expect((await collect(readServerSentEvents(empty))).map(e => JSON.parse(e.data).code)).toEqual(['INVALID_AI_RESPONSE'])
+    })
+  })
+})
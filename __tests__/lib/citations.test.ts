@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import type { Root, Paragraph } from 'mdast'
+import {
+  citationHref,
+  citationKey,
+  findCitations,
+  findUnsupportedCitations,
+  formatWebCitation,
+  remarkCitations,
+  sourceDomain,
+  toCitedSources
+} from '@/lib/citations'
+import type { Passage } from '@/lib/passage-index'
+
+const passage = (id: string, heading: string | null, anchor: string | null): Passage => ({
+  id,
+  slug: id.split(':')[0],
+  collection: 'chapters',
+  title: 'Majdhub / Mast',
+  heading,
+  anchor,
+  text: 'In Sind the mast wanders between shrines.'
+})
+
+const pageSlugs = ['majdhub', 'basil-the-blessed']
+
+const passages = [
+  passage('majdhub:1', null, null),
+  passage('majdhub:2', 'In Sind', 'in-sind'),
+  passage('majdhub:3', 'In Sind', 'in-sind')
+]
+
+describe('citations', () => {
+  it('should key passages by page and section', () => {
+    expect(passages.map(citationKey)).toEqual(['majdhub', 'majdhub#in-sind', 'majdhub#in-sind'])
+    expect(citationHref({ slug: 'majdhub', anchor: 'in-sind' })).toBe('/wiki/majdhub#in-sind')
+    expect(citationHref({ slug: 'majdhub', anchor: null })).toBe('/wiki/majdhub')
+  })
+
+  it('should list each cited source once', () => {
+    expect(toCitedSources(passages)).toEqual([
+      { key: 'majdhub', slug: 'majdhub', anchor: null, title: 'Majdhub / Mast', heading: null },
+      { key: 'majdhub#in-sind', slug: 'majdhub', anchor: 'in-sind', title: 'Majdhub / Mast', heading: 'In Sind' }
+    ])
+  })
+
+  it('should find markers but not markdown links or capitalized words in brackets', () => {
+    const text = 'The mast wanders [majdhub#in-sind][majdhub]. See [majdhub](/wiki/majdhub) [Sind].'
+
+    expect(findCitations(text, new Set(pageSlugs)).map(({ key, index }) => [key, index])).toEqual([
+      ['majdhub#in-sind', 17],
+      ['majdhub', 34]
+    ])
+  })
+
+  it('should flag claims citing sources that were never supplied', () => {
+    const text = 'The mast wanders [majdhub#in-sind]. Some are fed by villagers [majdhub#in-punjab].\nBasil mocked the tsar [basil-the-blessed].'
+
+    expect(findUnsupportedCitations(text, toCitedSources(passages), pageSlugs)).toEqual([
+      { key: 'majdhub#in-punjab', claim: 'Some are fed by villagers [majdhub#in-punjab].' },
+      { key: 'basil-the-blessed', claim: 'Basil mocked the tsar [basil-the-blessed].' }
+    ])
+  })
+
+  it('should accept a page-level marker for any passage of a supplied page', () => {
+    const sources = toCitedSources([passage('majdhub:2', 'In Sind', 'in-sind')])
+
+    expect(findUnsupportedCitations('The mast wanders [majdhub].', sources, [])).toEqual([])
+  })
+
+  it('should ignore bracketed notes that name no page', () => {
+    const text = 'The mast wanders [1]. He was "holy" [sic] and mad [ed]. Fed by villagers [majdhub#in-punjab].'
+
+    expect(findCitations(text, new Set(pageSlugs)).map(({ key }) => key)).toEqual(['majdhub#in-punjab'])
+    expect(findUnsupportedCitations(text, toCitedSources(passages), pageSlugs)).toEqual([
+      { key: 'majdhub#in-punjab', claim: 'Fed by villagers [majdhub#in-punjab].' }
+    ])
+  })
+
+  it('should turn markers in text into citation links', () => {
+    const tree: Root = {
+      type: 'root',
+      children: [{
+        type: 'paragraph',
+        children: [{ type: 'text', value: 'The mast wanders [1] [majdhub#in-sind].' }]
+      }]
+    }
+
+    remarkCitations({ slugs: new Set(pageSlugs) })(tree)
+
+    expect((tree.children[0] as Paragraph).children).toEqual([
+      { type: 'text', value: 'The mast wanders [1] ' },
+      {
+        type: 'link',
+        url: '/wiki/majdhub#in-sind',
+        data: { hProperties: { dataCitation: 'majdhub#in-sind' } },
+        children: [{ type: 'text', value: 'majdhub#in-sind' }]
+      },
+      { type: 'text', value: '.' }
+    ])
+  })
+
+  it('should format web sources as references', () => {
+    const source = { title: 'Holy Fools in Byzantium.', url: 'https://www.jstor.org/stable/1291', snippet: '' }
+
+    expect(sourceDomain(source.url)).toBe('jstor.org')
+    expect(sourceDomain('not a url')).toBe('not a url')
+    expect(formatWebCitation(source, new Date('2026-10-19T12:00:00Z')))
+      .toBe('Holy Fools in Byzantium. jstor.org. https://www.jstor.org/stable/1291 (accessed 19 October 2026).')
+  })
+})
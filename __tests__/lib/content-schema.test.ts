@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { validateFrontmatter, validateContent, formatValidationReport } from '@/lib/content-schema'
+
+const knownSlugs = new Set(['preface', 'appendices'])
+
+describe('content-schema', () => {
+  describe('validateFrontmatter', () => {
+    it('should accept valid frontmatter', () => {
+      const source = `---
+title: "Preface"
+category: "Introduction"
+keywords: ["alevi", "geel"]
+related:
+  - "appendices"
+---
+
+# Preface`
+
+      expect(validateFrontmatter('preface.md', source, knownSlugs)).toEqual([])
+    })
+
+    it('should report keywords given as a string with its line', () => {
+      const source = `---
+title: "Preface"
+keywords: "alevi, geel"
+---`
+
+      const issues = validateFrontmatter('preface.md', source, knownSlugs)
+      expect(issues).toEqual([{
+        file: 'preface.md',
+        line: 3,
+        field: 'keywords',
+        severity: 'error',
+        message: 'Expected "keywords" to be a list of strings, got string'
+      }])
+    })
+
+    it('should report related slugs that do not exist on the offending line', () => {
+      const source = `---
+title: "Preface"
+related:
+  - "appendices"
+  - "apendices"
+---`
+
+      const issues = validateFrontmatter('preface.md', source, knownSlugs)
+      expect(issues).toHaveLength(1)
+      expect(issues[0]).toMatchObject({
+        line: 5,
+        field: 'related',
+        severity: 'error',
+        message: '"related" references unknown page "apendices"'
+      })
+    })
+
+    it('should error on a missing title without a heading fallback', () => {
+      const issues = validateFrontmatter('empty.md', 'Just text', knownSlugs)
+      expect(issues).toEqual([expect.objectContaining({ field: 'title', severity: 'error' })])
+    })
+
+    it('should only warn on a missing title when a heading exists', () => {
+      const issues = validateFrontmatter('paper.md', '# Abstract\n\nText', knownSlugs)
+      expect(issues).toEqual([expect.objectContaining({ field: 'title', severity: 'warning' })])
+    })
+
+    it('should warn about unknown fields', () => {
+      const source = `---
+title: "Preface"
+see_also: ["appendices"]
+---`
+
+      const issues = validateFrontmatter('preface.md', source, knownSlugs)
+      expect(issues).toEqual([expect.objectContaining({ field: 'see_also', severity: 'warning', line: 3 })])
+    })
+
+    it('should report unknown fields whose names contain regex characters', () => {
+      const source = `---
+title: "Preface"
+notes(draft): "check"
+tags[0]: "geel"
+---`
+
+      const issues = validateFrontmatter('preface.md', source, knownSlugs)
+      expect(issues).toEqual([
+        expect.objectContaining({ field: 'notes(draft)', severity: 'warning', line: 3 }),
+        expect.objectContaining({ field: 'tags[0]', severity: 'warning', line: 4 })
+      ])
+    })
+
+    it('should stop at the closing delimiter in files with CRLF line endings', () => {
+      const source = '---\r\nkeywords: "alevi, geel"\r\n---\r\n\r\n# Preface\r\n\r\ntitle: a line of body text'
+
+      const issues = validateFrontmatter('preface.md', source, knownSlugs)
+      expect(issues).toEqual([
+        expect.objectContaining({ field: 'title', severity: 'warning', line: 1 }),
+        expect.objectContaining({ field: 'keywords', severity: 'error', line: 2 })
+      ])
+    })
+  })
+
+  describe('validateContent', () => {
+    it('should validate the repository content without errors', async () => {
+      const report = await validateContent()
+
+      expect(report.filesChecked).toBeGreaterThan(0)
+      expect(report.errors).toEqual([])
+      expect(formatValidationReport(report)).toContain(`Checked ${report.filesChecked} files`)
+    })
+  })
+})
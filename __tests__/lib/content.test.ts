@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  isValidSlug,
+  normalizeFrontmatter,
+  listSlugs,
+  getPage,
+  loadAllPages,
+  clearContentCache
+} from '@/lib/content'
+
+describe('content', () => {
+  beforeEach(() => {
+    clearContentCache()
+  })
+
+  describe('isValidSlug', () => {
+    it('should accept lowercase hyphenated slugs', () => {
+      expect(isValidSlug('preface')).toBe(true)
+      expect(isValidSlug('kaygusuz-abdal-and-alevi-mysticism')).toBe(true)
+    })
+
+    it('should reject path traversal and unexpected characters', () => {
+      expect(isValidSlug('../package')).toBe(false)
+      expect(isValidSlug('foo/bar')).toBe(false)
+      expect(isValidSlug('Preface')).toBe(false)
+      expect(isValidSlug('')).toBe(false)
+      expect(isValidSlug('-leading')).toBe(false)
+    })
+  })
+
+  describe('normalizeFrontmatter', () => {
+    it('should apply defaults for missing fields', () => {
+      expect(normalizeFrontmatter({}, 'page1', 'Page One').title).toBe('Page One')
+      expect(normalizeFrontmatter({}, 'page1')).toEqual({
+        title: 'page1',
+        description: undefined,
+        category: undefined,
+        keywords: [],
+        related: [],
+        seeAlso: []
+      })
+    })
+
+    it('should drop mistyped values instead of passing them through', () => {
+      const frontmatter = normalizeFrontmatter({
+        title: 42,
+        keywords: 'alevi',
+        related: ['preface', 7]
+      }, 'page1')
+
+      expect(frontmatter.title).toBe('page1')
+      expect(frontmatter.keywords).toEqual([])
+      expect(frontmatter.related).toEqual(['preface'])
+    })
+  })
+
+  describe('repository', () => {
+    it('should list slugs in sorted order', async () => {
+      const slugs = await listSlugs()
+
+      expect(slugs).toContain('preface')
+      expect(slugs).toEqual([...slugs].sort())
+    })
+
+    it('should load a page with normalized frontmatter', async () => {
+      const page = await getPage('introduction-why-sacred-madness')
+
+      expect(page).not.toBeNull()
+      expect(page!.frontmatter.category).toBe('Introduction')
+      expect(page!.frontmatter.related).toContain('preface')
+      expect(page!.content).not.toMatch(/^---/)
+    })
+
+    it('should return null for invalid or missing slugs', async () => {
+      expect(await getPage('../package')).toBeNull()
+      expect(await getPage('does-not-exist')).toBeNull()
+    })
+
+    it('should memoize parsed pages while the file is unchanged', async () => {
+      const first = await getPage('preface')
+      const second = await getPage('preface')
+
+      expect(second).toBe(first)
+    })
+
+    it('should list and load pages from every collection', async () => {
+      const slugs = await listSlugs()
+
+      expect(slugs).toContain('preface')
+      expect(slugs).toContain('abstract')
+      expect(await listSlugs('papers')).toEqual(['abstract', 'introduction', 'literature'])
+
+      const paper = await getPage('literature')
+      expect(paper!.collection).toBe('papers')
+      expect(await getPage('literature', 'chapters')).toBeNull()
+      expect((await getPage('preface'))!.collection).toBe('chapters')
+    })
+
+    it('should fall back to the first heading for pages without a title', async () => {
+      const page = await getPage('literature', 'papers')
+
+      expect(page!.frontmatter.title).toBe('Literature Review')
+    })
+
+    it('should load every listed page', async () => {
+      const [slugs, pages] = await Promise.all([listSlugs(), loadAllPages()])
+
+      expect(pages.map(p => p.slug)).toEqual(slugs)
+    })
+  })
+})
@@ -1,6 +1,12 @@
-import { describe, it, expect } from 'vitest'
-import { getBacklinks, getRelatedPages, getCategoryPages } from '@/lib/graph-builder'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { buildLinkGraph, clearLinkGraphCache, getBacklinks, getRelatedPages, getCategoryPages, getBrokenLinksBySource, getBacklinkDetails, extractWikiLinks, getNeighborhood, toGraphData, getOrphanPages, getDeadEndPages, computePageRank, computeBetweenness, getConnectedComponents, clusterByKeywords } from '@/lib/graph-builder'
 import type { LinkGraph, WikiPage } from '@/lib/graph-builder'
+import { mockContentPage } from '@/__tests__/helpers/content'
+import { buildPageIndex } from '@/lib/wikilinks'
+
+vi.mock('@/lib/content', () => ({
+  loadAllPages: vi.fn()
+}))
 
 describe('graph-builder', () => {
   describe('getBacklinks', () => {
@@ -14,7 +20,9 @@ describe('graph-builder', () => {
         forwardLinks: new Map<string, Set<string>>(),
         backlinks: new Map([
           ['page1', new Set(['page2', 'page3'])]
-        ])
+        ]),
+        edges: [],
+        brokenLinks: []
       }
 
       const backlinks = getBacklinks(mockGraph, 'page1')
@@ -28,7 +36,9 @@ describe('graph-builder', () => {
           ['page1', { slug: 'page1', title: 'Page 1', keywords: [], related: [], seeAlso: [] }]
         ]),
         forwardLinks: new Map<string, Set<string>>(),
-        backlinks: new Map()
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: []
       }
 
       const backlinks = getBacklinks(mockGraph, 'page1')
@@ -43,7 +53,9 @@ describe('graph-builder', () => {
         forwardLinks: new Map<string, Set<string>>(),
         backlinks: new Map([
           ['page1', new Set(['page2', 'non-existent'])]
-        ])
+        ]),
+        edges: [],
+        brokenLinks: []
       }
 
       const backlinks = getBacklinks(mockGraph, 'page1')
@@ -66,7 +78,9 @@ describe('graph-builder', () => {
           ['page3', { slug: 'page3', title: 'Page 3', keywords: [], related: [], seeAlso: [] }]
         ]),
         forwardLinks: new Map<string, Set<string>>(),
-        backlinks: new Map()
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: []
       }
 
       const related = getRelatedPages(mockGraph, 'page1')
@@ -78,7 +92,9 @@ describe('graph-builder', () => {
       const mockGraph: LinkGraph = {
         pages: new Map(),
         forwardLinks: new Map<string, Set<string>>(),
-        backlinks: new Map()
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: []
       }
 
       const related = getRelatedPages(mockGraph, 'non-existent')
@@ -116,7 +132,9 @@ describe('graph-builder', () => {
           }]
         ]),
         forwardLinks: new Map<string, Set<string>>(),
-        backlinks: new Map()
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: []
       }
 
       const categoryPages = getCategoryPages(mockGraph, 'page1')
@@ -137,7 +155,9 @@ describe('graph-builder', () => {
           }]
         ]),
         forwardLinks: new Map<string, Set<string>>(),
-        backlinks: new Map()
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: []
       }
 
       const categoryPages = getCategoryPages(mockGraph, 'page1')
@@ -156,11 +176,366 @@ describe('graph-builder', () => {
           }]
         ]),
         forwardLinks: new Map<string, Set<string>>(),
-        backlinks: new Map()
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: []
       }
 
       const categoryPages = getCategoryPages(mockGraph, 'page1')
       expect(categoryPages).toEqual([])
     })
   })
-})
\ No newline at end of file
+
+  describe('extractWikiLinks', () => {
+    const pageIndex = buildPageIndex([
+      { slug: 'majdhub', title: 'Majdhub' },
+      { slug: 'geel', title: 'St. Dymphna and Geel' }
+    ])
+
+    it('should record the position and anchor text of each link', () => {
+      const links = extractWikiLinks('See [the attracted](/wiki/majdhub#intro) and [[St. Dymphna and Geel|geel]].', pageIndex)
+
+      expect(links.map(({ slug, line, column, text }) => ({ slug, line, column, text }))).toEqual([
+        { slug: 'majdhub', line: 1, column: 5, text: 'the attracted' },
+        { slug: 'geel', line: 1, column: 46, text: 'St. Dymphna and Geel' }
+      ])
+    })
+
+    it('should keep only the sentence around the link, without markdown', () => {
+      const [link] = extractWikiLinks(
+        '- Earlier sentence. The **holy fool** resembles the [[majdhub]] in *many* ways. Later sentence.',
+        pageIndex
+      )
+
+      expect(link.context).toEqual({
+        before: 'The holy fool resembles the ',
+        anchor: 'majdhub',
+        after: ' in many ways.'
+      })
+    })
+
+    it('should skip links in inline code and fenced code blocks, as rendering does', () => {
+      const content = [
+        'Write `[[majdhub]]` for a wikilink to [[geel]].',
+        '```markdown',
+        '## Not a heading',
+        'See [[majdhub]] and [the town](/wiki/geel).',
+        '```',
+        'Back to [[majdhub]].'
+      ].join('\n')
+
+      const links = extractWikiLinks(content, pageIndex)
+
+      expect(links.map(({ slug, line, section }) => ({ slug, line, section }))).toEqual([
+        { slug: 'geel', line: 1, section: undefined },
+        { slug: 'majdhub', line: 6, section: undefined }
+      ])
+    })
+
+    it('should shorten long sentences at word boundaries', () => {
+      const words = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ')
+      const [link] = extractWikiLinks(`${words} [[majdhub]] ${words}`, pageIndex)
+
+      expect(link.context.before.startsWith('…word')).toBe(true)
+      expect(link.context.after.endsWith('…')).toBe(true)
+      expect(link.context.before.length).toBeLessThanOrEqual(121)
+      expect(link.context.after.length).toBeLessThanOrEqual(121)
+    })
+  })
+
+  describe('buildLinkGraph', () => {
+    beforeEach(() => {
+      clearLinkGraphCache()
+    })
+
+    it('should record broken inline and frontmatter links with file and line', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+
+      vi.mocked(loadAllPages).mockResolvedValueOnce([
+        mockContentPage('page1', `---
+title: "Page 1"
+related:
+  - "page2"
+  - "missing-related"
+---
+
+See [Page 2](/wiki/page2#intro) and [[Renamed Page]].
+
+Also /wiki/gone.`, { title: 'Page 1', related: ['page2', 'missing-related'] }),
+        mockContentPage('page2', 'Back to [Page 1](/wiki/page1) and [[the first page|Page 1]].', { title: 'Page 2' })
+      ])
+
+      const graph = await buildLinkGraph()
+
+      expect(graph.forwardLinks.get('page1')).toEqual(new Set(['page2', 'renamed-page', 'gone', 'missing-related']))
+      expect(graph.forwardLinks.get('page2')).toEqual(new Set(['page1']))
+      expect(graph.backlinks.get('page1')).toEqual(new Set(['page2']))
+      expect(graph.brokenLinks).toEqual([
+        { from: 'page1', to: 'renamed-page', file: 'content/chapters/page1.md', line: 8 },
+        { from: 'page1', to: 'gone', file: 'content/chapters/page1.md', line: 10 },
+        { from: 'page1', to: 'missing-related', file: 'content/chapters/page1.md', line: 5 }
+      ])
+    })
+
+    it('should record typed edges with occurrence counts and heading sections', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+
+      vi.mocked(loadAllPages).mockResolvedValueOnce([
+        mockContentPage('page1', `Intro mentions [[page2]].
+
+## The Holy Fool
+
+First [Page 2](/wiki/page2) and again [[Page 2]] on this line.
+
+Once more: [[page2]].
+
+### Sufi Parallels!
+
+Last [[page2]].`, { title: 'Page 1', related: ['page2'], seeAlso: ['page2'] }),
+        mockContentPage('page2', 'No links here.', { title: 'Page 2' })
+      ])
+
+      const graph = await buildLinkGraph()
+
+      const sections = [
+        { id: 'the-holy-fool', title: 'The Holy Fool' },
+        { id: 'sufi-parallels', title: 'Sufi Parallels!' }
+      ]
+
+      expect(graph.edges.map(({ occurrences, ...edge }) => ({ ...edge, lines: occurrences.map(o => o.line) }))).toEqual([
+        { from: 'page1', to: 'page2', type: 'inline', count: 4, sections, lines: [1, 5, 7, 11] },
+        { from: 'page1', to: 'page2', type: 'related', count: 1, sections: [], lines: [] },
+        { from: 'page1', to: 'page2', type: 'seeAlso', count: 1, sections: [], lines: [] }
+      ])
+
+      const [detail] = getBacklinkDetails(graph, 'page2')
+      expect(detail.page).toBe(graph.pages.get('page1'))
+      expect(detail.types).toEqual(['inline', 'related', 'seeAlso'])
+      expect(detail.count).toBe(4)
+      expect(detail.sections).toEqual(sections)
+      expect(detail.mentions.map(m => m.context)).toEqual([
+        { before: 'Intro mentions ', anchor: 'page2', after: '.' },
+        { before: 'First ', anchor: 'Page 2', after: ' and again Page 2 on this line.' },
+        { before: 'Once more: ', anchor: 'page2', after: '.' },
+        { before: 'Last ', anchor: 'page2', after: '.' }
+      ])
+    })
+  })
+
+  describe('buildLinkGraph caching', () => {
+    beforeEach(() => {
+      clearLinkGraphCache()
+    })
+
+    it('should reuse the cached graph while no page has changed', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      const pages = [
+        mockContentPage('page1', 'Links to [[page2]].'),
+        mockContentPage('page2', 'No links.')
+      ]
+
+      vi.mocked(loadAllPages).mockResolvedValueOnce(pages).mockResolvedValueOnce([...pages])
+
+      const first = await buildLinkGraph()
+      const second = await buildLinkGraph()
+
+      expect(second).toBe(first)
+    })
+
+    it('should update links when a single page changes', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+
+      vi.mocked(loadAllPages)
+        .mockResolvedValueOnce([
+          mockContentPage('page1', 'Links to [[page2]].'),
+          mockContentPage('page2', 'No links.')
+        ])
+        .mockResolvedValueOnce([
+          mockContentPage('page1', 'Links to [[page2]].'),
+          mockContentPage('page2', 'Now links back to [[page1]].')
+        ])
+
+      const before = await buildLinkGraph()
+      expect(before.backlinks.get('page1')).toBeUndefined()
+
+      const after = await buildLinkGraph()
+      expect(after).not.toBe(before)
+      expect(after.backlinks.get('page1')).toEqual(new Set(['page2']))
+      expect(after.forwardLinks.get('page1')).toEqual(new Set(['page2']))
+    })
+
+    it('should re-resolve title links when a page is renamed', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+
+      vi.mocked(loadAllPages)
+        .mockResolvedValueOnce([
+          mockContentPage('page1', 'See [[Geel Model]].'),
+          mockContentPage('page2', '', { title: 'Geel Model' })
+        ])
+        .mockResolvedValueOnce([
+          mockContentPage('page1', 'See [[Geel Model]].'),
+          mockContentPage('page2', '', { title: 'Geel Care' })
+        ])
+
+      expect((await buildLinkGraph()).brokenLinks).toEqual([])
+      expect((await buildLinkGraph()).brokenLinks.map(link => link.to)).toEqual(['geel-model'])
+    })
+
+    it('should share one build between concurrent callers', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockClear()
+      vi.mocked(loadAllPages).mockResolvedValueOnce([mockContentPage('page1', '')])
+
+      const [a, b] = await Promise.all([buildLinkGraph(), buildLinkGraph()])
+
+      expect(a).toBe(b)
+      expect(loadAllPages).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('getBrokenLinksBySource', () => {
+    it('should group broken links by source page', () => {
+      const mockGraph: LinkGraph = {
+        pages: new Map(),
+        forwardLinks: new Map<string, Set<string>>(),
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: [
+          { from: 'page1', to: 'a', file: 'page1.md', line: 1 },
+          { from: 'page2', to: 'b', file: 'page2.md', line: 2 },
+          { from: 'page1', to: 'c', file: 'page1.md', line: 3 }
+        ]
+      }
+
+      const bySource = getBrokenLinksBySource(mockGraph)
+      expect([...bySource.keys()]).toEqual(['page1', 'page2'])
+      expect(bySource.get('page1')!.map(link => link.to)).toEqual(['a', 'c'])
+    })
+  })
+
+  describe('getNeighborhood', () => {
+    const chainGraph: LinkGraph = {
+      pages: new Map([
+        ['a', { slug: 'a', title: 'A' }],
+        ['b', { slug: 'b', title: 'B' }],
+        ['c', { slug: 'c', title: 'C' }],
+        ['d', { slug: 'd', title: 'D' }]
+      ]),
+      forwardLinks: new Map([
+        ['a', new Set(['b', 'missing'])],
+        ['c', new Set(['b'])],
+        ['d', new Set(['c'])]
+      ]),
+      backlinks: new Map([
+        ['b', new Set(['a', 'c'])],
+        ['c', new Set(['d'])],
+        ['missing', new Set(['a'])]
+      ]),
+      edges: [],
+      brokenLinks: []
+    }
+
+    it('should follow links in both directions up to N hops', () => {
+      expect(getNeighborhood(chainGraph, 'a', 1)).toEqual(new Set(['a', 'b']))
+      expect(getNeighborhood(chainGraph, 'a', 2)).toEqual(new Set(['a', 'b', 'c']))
+      expect(getNeighborhood(chainGraph, 'a', 3)).toEqual(new Set(['a', 'b', 'c', 'd']))
+    })
+
+    it('should return an empty set for unknown pages', () => {
+      expect(getNeighborhood(chainGraph, 'missing', 2)).toEqual(new Set())
+    })
+
+    it('should convert a neighborhood to serializable graph data without broken edges', () => {
+      const data = toGraphData(chainGraph, getNeighborhood(chainGraph, 'a', 1))
+
+      expect(data.nodes.map(n => n.slug)).toEqual(['a', 'b'])
+      expect(data.edges).toEqual([{ from: 'a', to: 'b' }])
+    })
+  })
+
+  describe('graph analysis', () => {
+    // star: a, b, c all link to hub; hub links to a; d and e link only to each other
+    const analysisGraph: LinkGraph = {
+      pages: new Map([
+        ['hub', { slug: 'hub', title: 'Hub', keywords: ['Sufism', 'abdal'] }],
+        ['a', { slug: 'a', title: 'A', keywords: ['sufism'] }],
+        ['b', { slug: 'b', title: 'B', keywords: ['abdal'] }],
+        ['c', { slug: 'c', title: 'C', keywords: [] }],
+        ['d', { slug: 'd', title: 'D', keywords: ['geel', 'care'] }],
+        ['e', { slug: 'e', title: 'E', keywords: ['geel'] }],
+        ['lonely', { slug: 'lonely', title: 'Lonely', keywords: [] }]
+      ]),
+      forwardLinks: new Map([
+        ['hub', new Set(['a', 'hub'])],
+        ['a', new Set(['hub'])],
+        ['b', new Set(['hub', 'missing'])],
+        ['c', new Set(['hub'])],
+        ['d', new Set(['e'])],
+        ['e', new Set(['d'])]
+      ]),
+      backlinks: new Map(),
+      edges: [],
+      brokenLinks: []
+    }
+
+    it('should find orphans and dead ends ignoring self-links and broken links', () => {
+      expect(getOrphanPages(analysisGraph)).toEqual(['b', 'c', 'lonely'])
+      expect(getDeadEndPages(analysisGraph)).toEqual(['lonely'])
+    })
+
+    it('should rank the most linked-to page highest by PageRank', () => {
+      const ranks = computePageRank(analysisGraph)
+      const total = [...ranks.values()].reduce((sum, rank) => sum + rank, 0)
+
+      expect(total).toBeCloseTo(1, 6)
+      expect(Math.max(...ranks.values())).toBe(ranks.get('hub'))
+      expect(ranks.get('lonely')).toBeLessThan(ranks.get('a')!)
+    })
+
+    it('should give bridge pages the highest betweenness', () => {
+      const betweenness = computeBetweenness(analysisGraph)
+
+      expect(betweenness.get('hub')).toBeGreaterThan(0)
+      expect(betweenness.get('hub')).toBeGreaterThan(betweenness.get('a')!)
+      expect(betweenness.get('lonely')).toBe(0)
+    })
+
+    it('should split the graph into connected components', () => {
+      expect(getConnectedComponents(analysisGraph)).toEqual([
+        ['a', 'b', 'c', 'hub'],
+        ['d', 'e'],
+        ['lonely']
+      ])
+    })
+
+    it('should cluster pages by shared keywords', () => {
+      const communities = clusterByKeywords(analysisGraph)
+
+      expect(communities.slice(0, 2)).toEqual([
+        { label: 'abdal', pages: ['a', 'b', 'hub'], keywords: ['abdal', 'sufism'] },
+        { label: 'geel', pages: ['d', 'e'], keywords: ['geel'] }
+      ])
+      expect(communities.slice(2).map(c => c.pages)).toEqual([['c'], ['lonely']])
+    })
+
+    it('should order related and category pages by centrality', () => {
+      const graph: LinkGraph = {
+        pages: new Map([
+          ['page1', { slug: 'page1', title: 'Page 1', category: 'x', seeAlso: ['minor', 'major'] }],
+          ['minor', { slug: 'minor', title: 'Minor', category: 'x' }],
+          ['major', { slug: 'major', title: 'Major', category: 'x' }]
+        ]),
+        forwardLinks: new Map([
+          ['page1', new Set(['minor', 'major'])],
+          ['minor', new Set(['major'])]
+        ]),
+        backlinks: new Map(),
+        edges: [],
+        brokenLinks: []
+      }
+
+      expect(getRelatedPages(graph, 'page1').map(p => p.slug)).toEqual(['major', 'minor'])
+      expect(getCategoryPages(graph, 'page1').map(p => p.slug)).toEqual(['major', 'minor'])
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { computeForceLayout, getCategoryColors } from '@/lib/graph-layout'
+
+describe('graph-layout', () => {
+  describe('computeForceLayout', () => {
+    const nodes = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }]
+    const edges = [{ from: 'a', to: 'b' }, { from: 'b', to: 'c' }]
+
+    it('should place every node inside the padded box', () => {
+      const positions = computeForceLayout(nodes, edges, { width: 400, height: 300, padding: 20 })
+
+      expect(positions.size).toBe(4)
+      for (const { x, y } of positions.values()) {
+        expect(x).toBeGreaterThanOrEqual(20)
+        expect(x).toBeLessThanOrEqual(380)
+        expect(y).toBeGreaterThanOrEqual(20)
+        expect(y).toBeLessThanOrEqual(280)
+      }
+    })
+
+    it('should be deterministic', () => {
+      const first = computeForceLayout(nodes, edges, { width: 400, height: 300 })
+      const second = computeForceLayout(nodes, edges, { width: 400, height: 300 })
+
+      expect([...second.entries()]).toEqual([...first.entries()])
+    })
+
+    it('should pull linked nodes closer than unlinked ones', () => {
+      const positions = computeForceLayout(nodes, edges, { width: 400, height: 400 })
+      const distance = (p: string, q: string) => {
+        const a = positions.get(p)!
+        const b = positions.get(q)!
+        return Math.hypot(a.x - b.x, a.y - b.y)
+      }
+
+      expect(distance('a', 'b')).toBeLessThan(distance('a', 'd'))
+    })
+
+    it('should handle empty and single-node graphs', () => {
+      expect(computeForceLayout([], [], { width: 100, height: 100 }).size).toBe(0)
+      expect(computeForceLayout([{ id: 'a' }], [], { width: 100, height: 80 }).get('a')).toEqual({ x: 50, y: 40 })
+    })
+  })
+
+  describe('getCategoryColors', () => {
+    it('should assign stable colors by sorted category', () => {
+      const colors = getCategoryColors(['Sufi', 'Academic', 'Sufi'])
+
+      expect([...colors.keys()]).toEqual(['Academic', 'Sufi'])
+      expect(getCategoryColors(['Academic', 'Sufi'])).toEqual(colors)
+    })
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { createMdxComponents, getWikiSlugFromHref } from '@/lib/mdx-components'
+
+vi.mock('next/link', () => ({
+  default: ({ children, href, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement>) => {
+    return <a href={href} {...props}>{children}</a>
+  }
+}))
+
+describe('mdx-components', () => {
+  it('should read the slug of wiki links', () => {
+    expect(getWikiSlugFromHref('/wiki/preface#notes')).toBe('preface')
+    expect(getWikiSlugFromHref('/wiki/g%C3%BCnes')).toBe('günes')
+    expect(getWikiSlugFromHref('/search?q=geel')).toBeNull()
+  })
+
+  it('should treat links with malformed escapes as ordinary links', () => {
+    const Anchor = createMdxComponents(new Set(['preface'])).a as React.FC<React.AnchorHTMLAttributes<HTMLAnchorElement>>
+
+    expect(getWikiSlugFromHref('/wiki/100%')).toBeNull()
+
+    render(<Anchor href="/wiki/100%">Full</Anchor>)
+    expect(screen.getByRole('link', { name: 'Full' })).not.toHaveAttribute('data-missing-page')
+  })
+
+  it('should keep the attributes of links to missing pages', () => {
+    const Anchor = createMdxComponents(new Set(['preface'])).a as React.FC<React.AnchorHTMLAttributes<HTMLAnchorElement>>
+
+    render(<Anchor href="/wiki/geel" id="ref-geel" title="Geel">Geel</Anchor>)
+
+    const link = screen.getByRole('link', { name: 'Geel (page does not exist)' })
+    expect(link).toHaveAttribute('data-missing-page', 'geel')
+    expect(link).toHaveAttribute('id', 'ref-geel')
+    expect(link).toHaveAttribute('title', 'Geel')
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  buildPassageIndex,
+  chunkPage,
+  clearPassageIndexCache,
+  getPassageIndex,
+  retrievePassages,
+  writePassageIndex
+} from '@/lib/passage-index'
+import { mockContentPage } from '@/__tests__/helpers/content'
+
+vi.mock('@/lib/content', () => ({
+  loadAllPages: vi.fn()
+}))
+
+const sentence = (words: string) => `${words} ${'and so the story goes on '.repeat(3)}`.trim()
+
+const pages = [
+  mockContentPage('majdhub', [
+    '# Majdhub / Mast',
+    '',
+    sentence('The majdhub is attracted to God and loses ordinary sobriety.'),
+    '',
+    '## In Sind',
+    '',
+    sentence('In Sind the mast wanders between shrines and is fed by the villagers.'),
+    '',
+    '## Notes',
+    '',
+    'Content to be added.'
+  ].join('\n'), { title: 'Majdhub / Mast' }),
+  mockContentPage('geel', [
+    '# Geel',
+    '',
+    sentence('Pilgrims brought the mentally ill to the shrine of Dymphna in Geel.'),
+    '',
+    sentence('Families in Geel took boarders into their homes as foster care.')
+  ].join('\n'), { title: 'St. Dymphna and Geel' }),
+  mockContentPage('salos', sentence('The salos of Emesa played the fool in the marketplace.'), { title: 'The Holy Fool' })
+]
+
+describe('passage-index', () => {
+  describe('chunkPage', () => {
+    it('should split pages at section headings, skipping near-empty sections', () => {
+      const passages = chunkPage(pages[0])
+
+      expect(passages.map(p => [p.id, p.heading, p.anchor])).toEqual([
+        ['majdhub:1', null, null],
+        ['majdhub:2', 'In Sind', 'in-sind']
+      ])
+      expect(passages[1].text).toMatch(/^In Sind the mast wanders/)
+      expect(passages[0].title).toBe('Majdhub / Mast')
+    })
+
+    it('should split long sections at paragraph breaks', () => {
+      const paragraph = sentence('A paragraph about the yurodivy of Moscow.').repeat(5)
+      const passages = chunkPage(mockContentPage('yurodivy', [paragraph, paragraph, paragraph].join('\n\n')))
+
+      expect(passages.length).toBeGreaterThan(1)
+      expect(passages.every(p => p.text.split(/\s+/).length <= 200)).toBe(true)
+    })
+  })
+
+  describe('retrievePassages', () => {
+    const index = buildPassageIndex(pages)
+
+    it('should rank passages across pages for a question', () => {
+      const results = retrievePassages(index, 'Where does the mast wander?')
+
+      expect(results[0].passage.id).toBe('majdhub:2')
+    })
+
+    it('should expand query terms with their variant spellings', () => {
+      expect(retrievePassages(index, 'saloi').map(r => r.passage.id)).toEqual([])
+      expect(retrievePassages(index, 'saloi', { synonyms: [['salos', 'saloi']] }).map(r => r.passage.id)).toEqual(['salos:1'])
+    })
+
+    it('should take at most two passages from a page and favour the current page', () => {
+      const results = retrievePassages(index, 'Geel majdhub mast Sind Dymphna sobriety', { limit: 10 })
+      expect(results.filter(r => r.passage.slug === 'majdhub')).toHaveLength(2)
+
+      const score = (slug?: string) => retrievePassages(index, 'shrine', { slug }).find(r => r.passage.slug === 'geel')!.score
+      expect(score('geel')).toBeGreaterThan(score())
+    })
+
+    it('should ignore words that are object properties', () => {
+      expect(retrievePassages(index, 'constructor toString')).toEqual([])
+    })
+  })
+
+  describe('getPassageIndex', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      clearPassageIndexCache()
+      vi.clearAllMocks()
+      dir = await mkdtemp(join(tmpdir(), 'passages-'))
+      process.env.PASSAGE_INDEX_PATH = join(dir, 'passage-index.json')
+    })
+
+    afterEach(async () => {
+      vi.unstubAllEnvs()
+      delete process.env.PASSAGE_INDEX_PATH
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('should reuse the index while content is unchanged', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValue(pages)
+
+      const first = await getPassageIndex()
+      const second = await getPassageIndex()
+
+      expect(second).toBe(first)
+      expect(first.passages).toHaveLength(4)
+    })
+
+    it('should use the prebuilt index in production', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValue(pages)
+      await writePassageIndex()
+      vi.mocked(loadAllPages).mockClear()
+      vi.stubEnv('NODE_ENV', 'production')
+
+      const index = await getPassageIndex()
+
+      expect(index.passages).toHaveLength(4)
+      expect(loadAllPages).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  buildSearchIndex,
+  clearSearchIndexCache,
+  getSearchFacets,
+  getSearchIndex,
+  normalizeSearchText,
+  searchIndex,
+  tokenize
+} from '@/lib/search-index'
+import { mockContentPage } from '@/__tests__/helpers/content'
+
+vi.mock('@/lib/content', () => ({
+  loadAllPages: vi.fn()
+}))
+
+const pages = [
+  mockContentPage('majdhub', 'The majdhub is attracted to God. Mystics in Sind call him mast.', {
+    title: 'Majdhub / Mast',
+    keywords: ['sufism', 'attraction']
+  }),
+  mockContentPage('holy-fool', 'Holy fools of Byzantium. The salos, like the majdhub, mocks the world.', {
+    title: 'The Holy Fool',
+    description: 'Origins of holy foolishness'
+  }),
+  mockContentPage('hizir', 'Hızır appears to travelers. Erdal Güneş writes about Hızır.', { title: 'Hızır' }),
+  mockContentPage('psychiatry', 'Psychiatry and mysticism meet. Diagnosis is not destiny.', { title: 'Psychiatry' })
+]
+
+describe('search-index', () => {
+  describe('tokenize', () => {
+    it('should fold diacritics and Turkish letters', () => {
+      expect(normalizeSearchText('Güneş Hızır İstanbul')).toBe('gunes hizir istanbul')
+    })
+
+    it('should drop stopwords and stem terms', () => {
+      expect(tokenize('The Mystics of the Desert')).toEqual(['mystic', 'desert'])
+    })
+  })
+
+  describe('searchIndex', () => {
+    const index = buildSearchIndex(pages)
+
+    it('should rank title and keyword matches above body mentions', () => {
+      const { results } = searchIndex(index, 'majdhub')
+
+      expect(results.map(r => r.slug)).toEqual(['majdhub', 'holy-fool'])
+      expect(results[0].score).toBeGreaterThan(results[1].score)
+    })
+
+    it('should match across diacritics in both directions', () => {
+      expect(searchIndex(index, 'gunes').results.map(r => r.slug)).toEqual(['hizir'])
+      expect(searchIndex(index, 'hizir').results.map(r => r.slug)).toEqual(['hizir'])
+      expect(searchIndex(index, 'Hızır').results.map(r => r.slug)).toEqual(['hizir'])
+    })
+
+    it('should match stemmed variants', () => {
+      const { results } = searchIndex(index, 'mystical')
+
+      expect(results.map(r => r.slug).sort()).toEqual(['majdhub', 'psychiatry'])
+    })
+
+    it('should rank documents matching more query terms higher', () => {
+      const { results } = searchIndex(index, 'psychiatry mysticism')
+
+      expect(results[0].slug).toBe('psychiatry')
+      expect(results[0].terms).toEqual(['psychiatri', 'mystic'])
+    })
+
+    it('should correct misspelled terms against the index vocabulary', () => {
+      const { corrections, results } = searchIndex(index, 'byzantum')
+
+      expect(corrections).toEqual([{ from: 'byzantum', to: 'byzantium' }])
+      expect(results.map(r => r.slug)).toEqual(['holy-fool'])
+    })
+
+    it('should not correct short or unrelated terms', () => {
+      expect(searchIndex(index, 'xyzzyplugh').results).toEqual([])
+      expect(searchIndex(index, 'gune').corrections).toEqual([])
+    })
+
+    it('should require every word by default', () => {
+      expect(searchIndex(index, 'majdhub salos').results.map(r => r.slug)).toEqual(['holy-fool'])
+    })
+
+    it('should support OR and NOT', () => {
+      expect(searchIndex(index, 'salos OR psychiatry').results.map(r => r.slug).sort()).toEqual(['holy-fool', 'psychiatry'])
+      expect(searchIndex(index, 'majdhub NOT salos').results.map(r => r.slug)).toEqual(['majdhub'])
+      expect(searchIndex(index, 'majdhub -byzantium').results.map(r => r.slug)).toEqual(['majdhub'])
+    })
+
+    it('should match phrases only in sequence', () => {
+      expect(searchIndex(index, '"holy fools"').results.map(r => r.slug)).toEqual(['holy-fool'])
+      expect(searchIndex(index, '"fools holy"').results).toEqual([])
+    })
+
+    it('should expand prefixes, including across diacritics', () => {
+      const { results, terms } = searchIndex(index, 'byzan*')
+
+      expect(results.map(r => r.slug)).toEqual(['holy-fool'])
+      expect(terms).toEqual(['byzantium'])
+      expect(searchIndex(index, 'hız*').results.map(r => r.slug)).toEqual(['hizir'])
+    })
+
+    it('should filter by title, keyword and category', () => {
+      const categorized = buildSearchIndex([
+        ...pages,
+        mockContentPage('intro', 'The majdhub appears here too.', { title: 'Introduction', category: 'Introduction' })
+      ])
+
+      expect(searchIndex(index, 'title:fool').results.map(r => r.slug)).toEqual(['holy-fool'])
+      expect(searchIndex(index, 'keyword:sufism').results.map(r => r.slug)).toEqual(['majdhub'])
+      expect(searchIndex(categorized, 'majdhub -category:introduction').results.map(r => r.slug)).toEqual(['majdhub', 'holy-fool'])
+      expect(searchIndex(categorized, 'category:intro*').results.map(r => r.slug)).toEqual(['intro'])
+    })
+
+    it('should filter by collection', () => {
+      const collected = buildSearchIndex([
+        ...pages,
+        { ...mockContentPage('abstract', 'The majdhub and the Byzantine salos.', { title: 'Abstract' }), collection: 'papers' }
+      ])
+
+      expect(searchIndex(collected, 'majdhub collection:papers').results.map(r => r.slug)).toEqual(['abstract'])
+      expect(searchIndex(collected, 'majdhub collection:paper').results.map(r => r.slug)).toEqual(['abstract'])
+      expect(searchIndex(collected, 'majdhub -collection:papers').results.map(r => r.slug)).toEqual(['majdhub', 'holy-fool'])
+      expect(searchIndex(collected, 'salos', { collection: 'chapters' }).results.map(r => r.slug)).toEqual(['holy-fool'])
+      expect(searchIndex(collected, 'salos').results.map(r => r.collection).sort()).toEqual(['chapters', 'papers'])
+    })
+
+    it('should expand terms with their variant spellings', () => {
+      const expanded = buildSearchIndex(pages, [['majdhub', 'majzub', 'mazjub'], ['salos', 'saloi'], ['sari saltuk', 'saltuk']])
+
+      const { corrections, results, terms } = searchIndex(expanded, 'majzub')
+      expect(corrections).toEqual([])
+      expect(results.map(r => r.slug)).toEqual(['majdhub', 'holy-fool'])
+      expect(terms).toEqual(['majdhub', 'majzub', 'mazjub'])
+
+      expect(searchIndex(expanded, 'saloi NOT mazjub').results).toEqual([])
+      expect(searchIndex(expanded, 'title:majzub').results.map(r => r.slug)).toEqual(['majdhub'])
+      expect(searchIndex(expanded, 'saltuk').results).toEqual([])
+    })
+
+    it('should correct misspellings to a term with variant spellings', () => {
+      const expanded = buildSearchIndex([
+        ...pages,
+        mockContentPage('constantinople', 'Fools in the streets of Byzantion.', { title: 'Constantinople' })
+      ], [['byzantium', 'byzantion']])
+
+      const { corrections, results } = searchIndex(expanded, 'byzantum')
+      expect(corrections).toEqual([{ from: 'byzantum', to: 'byzantium' }])
+      expect(results.map(r => r.slug).sort()).toEqual(['constantinople', 'holy-fool'])
+    })
+
+    it('should ignore stopword-only clauses', () => {
+      expect(searchIndex(index, 'the').results).toEqual([])
+      expect(searchIndex(index, 'the OR salos').results.map(r => r.slug)).toEqual(['holy-fool'])
+    })
+
+    it('should respect the result limit', () => {
+      expect(searchIndex(index, 'majdhub', { limit: 1 }).results).toHaveLength(1)
+    })
+
+    it('should sort by title or word count', () => {
+      const query = 'majdhub OR psychiatry'
+
+      expect(searchIndex(index, query, { sort: 'title' }).results.map(r => r.title)).toEqual([
+        'Majdhub / Mast',
+        'Psychiatry',
+        'The Holy Fool'
+      ])
+      expect(searchIndex(index, query, { sort: 'words' }).results.map(r => [r.slug, r.wordCount])).toEqual([
+        ['majdhub', 12],
+        ['holy-fool', 12],
+        ['psychiatry', 8]
+      ])
+    })
+  })
+
+  describe('getSearchFacets', () => {
+    it('should count results per collection, category and keyword, most common first', () => {
+      const results = buildSearchIndex([
+        mockContentPage('a', 'Geel.', { category: 'Mental Health', keywords: ['geel', 'care'] }),
+        mockContentPage('b', 'Geel.', { category: 'Mental Health', keywords: ['care'] }),
+        mockContentPage('c', 'Geel.', { category: 'Academic', keywords: ['care', 'care'] }),
+        { ...mockContentPage('d', 'Geel.'), collection: 'papers' }
+      ])
+
+      expect(getSearchFacets(searchIndex(results, 'geel').results)).toEqual({
+        collections: [
+          { value: 'chapters', count: 3 },
+          { value: 'papers', count: 1 }
+        ],
+        categories: [
+          { value: 'Mental Health', count: 2 },
+          { value: 'Academic', count: 1 }
+        ],
+        keywords: [
+          { value: 'care', count: 3 },
+          { value: 'geel', count: 1 }
+        ]
+      })
+    })
+  })
+
+  it('should count keywords under their preferred spelling', () => {
+    const index = buildSearchIndex([
+      mockContentPage('a', 'Abdal.', { keywords: ['abdal'] }),
+      mockContentPage('b', 'Abdal.', { keywords: ['Abdalan', 'abdals'] })
+    ], [['abdal', 'abdalan', 'abdals']])
+
+    expect(getSearchFacets(searchIndex(index, 'abdal').results, index).keywords).toEqual([
+      { value: 'abdal', count: 2 }
+    ])
+  })
+
+  describe('getSearchIndex', () => {
+    beforeEach(() => {
+      clearSearchIndexCache()
+      vi.clearAllMocks()
+    })
+
+    it('should reuse the index while content is unchanged', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValue(pages)
+
+      const first = await getSearchIndex()
+      const second = await getSearchIndex()
+
+      expect(second).toBe(first)
+    })
+
+    it('should rebuild the index when a page changes', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValueOnce(pages)
+      const first = await getSearchIndex()
+
+      vi.mocked(loadAllPages).mockResolvedValueOnce([
+        ...pages.slice(1),
+        mockContentPage('majdhub', 'Rewritten about Geel.', { title: 'Majdhub / Mast' })
+      ])
+      const second = await getSearchIndex()
+
+      expect(second).not.toBe(first)
+      expect(searchIndex(second, 'geel').results.map(r => r.slug)).toEqual(['majdhub'])
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, appendFile, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { anonymizeQuery, isSearchId, logSearch, logSearchClick, readSearchLog } from '@/lib/search-log'
+
+describe('search-log', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'search-log-'))
+    process.env.SEARCH_LOG_PATH = join(dir, 'nested', 'search-log.jsonl')
+  })
+
+  afterEach(async () => {
+    delete process.env.SEARCH_LOG_PATH
+    delete process.env.SEARCH_LOG_MAX_BYTES
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('anonymizeQuery', () => {
+    it('should normalize case and whitespace', () => {
+      expect(anonymizeQuery('  Holy   FOOL ')).toBe('holy fool')
+    })
+
+    it('should redact email addresses and long numbers but keep years', () => {
+      expect(anonymizeQuery('mail me@example.com about geel')).toBe('mail [email] about geel')
+      expect(anonymizeQuery('call +32 470 12 34 56')).toBe('call [number]')
+      expect(anonymizeQuery('abdals 1240-1444')).toBe('abdals 1240-1444')
+    })
+  })
+
+  it('should append searches and clicks and read them back in order', async () => {
+    const id = await logSearch({ query: 'Geel', results: 3, corrected: false })
+    await logSearchClick({ id, slug: 'geel', position: 1 })
+
+    expect(isSearchId(id)).toBe(true)
+    const events = await readSearchLog()
+    expect(events).toEqual([
+      { type: 'search', id, at: expect.stringMatching(/T\d\d:00:00\.000Z$/), query: 'geel', results: 3, corrected: false },
+      { type: 'click', id, at: expect.any(String), slug: 'geel', position: 1 }
+    ])
+  })
+
+  it('should keep concurrent writes on separate lines', async () => {
+    await Promise.all(['a1', 'b2', 'c3', 'd4'].map(query => logSearch({ query, results: 0, corrected: false })))
+
+    expect((await readSearchLog()).map(event => event.type === 'search' && event.query).sort()).toEqual(['a1', 'b2', 'c3', 'd4'])
+  })
+
+  it('should skip malformed lines and treat a missing log as empty', async () => {
+    expect(await readSearchLog()).toEqual([])
+
+    await logSearch({ query: 'geel', results: 1, corrected: false })
+    await appendFile(process.env.SEARCH_LOG_PATH!, '{"type":"sea')
+
+    expect(await readSearchLog()).toHaveLength(1)
+  })
+
+  it('should rotate the log once it reaches its size cap', async () => {
+    process.env.SEARCH_LOG_MAX_BYTES = '300'
+    for (const query of ['a1', 'b2', 'c3', 'd4', 'e5', 'f6', 'g7']) {
+      await logSearch({ query, results: 0, corrected: false })
+    }
+
+    const path = process.env.SEARCH_LOG_PATH!
+    expect((await stat(path)).size).toBeLessThan(300 + 200)
+    expect((await stat(`${path}.1`)).size).toBeLessThan(300 + 200)
+
+    // The oldest searches went with the log the rotated one replaced
+    const queries = (await readSearchLog()).map(event => event.type === 'search' && event.query)
+    expect(queries).toEqual(['a1', 'b2', 'c3', 'd4', 'e5', 'f6', 'g7'].slice(-queries.length))
+    expect(queries.length).toBeLessThan(7)
+  })
+
+  it('should not fail searches when the log cannot be written', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await writeFile(join(dir, 'file'), '')
+    process.env.SEARCH_LOG_PATH = join(dir, 'file', 'search-log.jsonl')
+
+    await expect(logSearch({ query: 'geel', results: 1, corrected: false })).resolves.toMatch(/^[0-9a-f-]{36}$/)
+    await expect(logSearchClick({ id: 'x', slug: 'geel', position: 1 })).resolves.toBeUndefined()
+    expect(await readSearchLog()).toEqual([])
+    warn.mockRestore()
+  })
+})
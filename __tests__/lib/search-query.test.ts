@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { parseSearchQuery } from '@/lib/search-query'
+
+const term = (value: string, extra: object = {}) => ({ type: 'term', value, prefix: false, ...extra })
+
+describe('search-query', () => {
+  it('should join plain words with AND', () => {
+    expect(parseSearchQuery('holy fool')).toEqual({ type: 'and', children: [term('holy'), term('fool')] })
+    expect(parseSearchQuery('holy AND fool')).toEqual(parseSearchQuery('holy fool'))
+  })
+
+  it('should parse phrases, prefixes and field filters', () => {
+    expect(parseSearchQuery('"holy fool"')).toEqual({ type: 'phrase', value: 'holy fool' })
+    expect(parseSearchQuery('yurodiv*')).toEqual(term('yurodiv', { prefix: true }))
+    expect(parseSearchQuery('"yurodiv*"')).toEqual(term('yurodiv', { prefix: true }))
+    expect(parseSearchQuery('keyword:alevi')).toEqual(term('alevi', { field: 'keyword' }))
+    expect(parseSearchQuery('collection:papers')).toEqual(term('papers', { field: 'collection' }))
+    expect(parseSearchQuery('category:"Sufi Traditions"')).toEqual({
+      type: 'phrase',
+      value: 'Sufi Traditions',
+      field: 'category'
+    })
+  })
+
+  it('should bind AND tighter than OR', () => {
+    expect(parseSearchQuery('geel dymphna OR mast')).toEqual({
+      type: 'or',
+      children: [{ type: 'and', children: [term('geel'), term('dymphna')] }, term('mast')]
+    })
+  })
+
+  it('should group with parentheses', () => {
+    expect(parseSearchQuery('(geel OR dymphna) pilgrims')).toEqual({
+      type: 'and',
+      children: [{ type: 'or', children: [term('geel'), term('dymphna')] }, term('pilgrims')]
+    })
+  })
+
+  it('should parse NOT and minus as negation', () => {
+    const expected = {
+      type: 'and',
+      children: [
+        term('yurodivy', { prefix: true }),
+        { type: 'not', child: term('Introduction', { field: 'category' }) }
+      ]
+    }
+
+    expect(parseSearchQuery('yurodivy* NOT category:Introduction')).toEqual(expected)
+    expect(parseSearchQuery('yurodivy* -category:Introduction')).toEqual(expected)
+  })
+
+  it('should treat lowercase operators and unknown fields as text', () => {
+    expect(parseSearchQuery('fool or saint')).toEqual({
+      type: 'and',
+      children: [term('fool'), term('or'), term('saint')]
+    })
+    expect(parseSearchQuery('author:smith')).toEqual(term('author smith'))
+  })
+
+  it('should tolerate unbalanced syntax', () => {
+    expect(parseSearchQuery('"holy fool')).toEqual({ type: 'phrase', value: 'holy fool' })
+    expect(parseSearchQuery('(geel OR dymphna')).toEqual({ type: 'or', children: [term('geel'), term('dymphna')] })
+    expect(parseSearchQuery('geel) mast')).toEqual({ type: 'and', children: [term('geel'), term('mast')] })
+    expect(parseSearchQuery('geel OR')).toEqual(term('geel'))
+  })
+
+  it('should return null when there is nothing to search for', () => {
+    expect(parseSearchQuery('')).toBeNull()
+    expect(parseSearchQuery('NOT')).toBeNull()
+    expect(parseSearchQuery('* ()')).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { buildSnippets, type SearchSnippet } from '@/lib/search-snippets'
+import { tokenize } from '@/lib/search-index'
+
+const highlighted = (snippet: SearchSnippet) =>
+  snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))
+
+describe('search-snippets', () => {
+  it('should mark matched words, including stemmed and folded variants', () => {
+    const [snippet] = buildSnippets('Mystics met Hızır at the shrine of the mystic.', tokenize('mystic hizir'))
+
+    expect(snippet.text).toBe('Mystics met Hızır at the shrine of the mystic.')
+    expect(highlighted(snippet)).toEqual(['Mystics', 'Hızır', 'mystic'])
+  })
+
+  it('should attach the nearest ## or ### heading with its toc anchor', () => {
+    const content = [
+      '## Origins',
+      'Nothing here.',
+      '### Geel & Pilgrims',
+      'Pilgrims came to Geel.',
+      '#### Minor Heading',
+      'Geel again.'
+    ].join('\n')
+
+    const snippets = buildSnippets(content, tokenize('geel'))
+
+    expect(snippets.map(s => s.section)).toEqual([
+      { id: 'geel-pilgrims', title: 'Geel & Pilgrims' },
+      { id: 'geel-pilgrims', title: 'Geel & Pilgrims' }
+    ])
+  })
+
+  it('should leave out the section for hits before the first heading', () => {
+    const [snippet] = buildSnippets('Geel first.\n\n## Later\nMore.', tokenize('geel'))
+
+    expect(snippet).not.toHaveProperty('section')
+  })
+
+  it('should cut long lines at word boundaries around the hit', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(10)
+    const [snippet] = buildSnippets(`${filler}Geel ${filler}`, tokenize('geel'))
+
+    expect(snippet.text).toMatch(/^…(lorem|ipsum|dolor|sit|amet) /)
+    expect(snippet.text).toMatch(/ (lorem|ipsum|dolor|sit|amet)…$/)
+    expect(snippet.text.length).toBeLessThan(200)
+    expect(highlighted(snippet)).toEqual(['Geel'])
+  })
+
+  it('should merge nearby hits into one snippet', () => {
+    const snippets = buildSnippets('Geel is a town. The people of Geel took in pilgrims.', tokenize('geel'))
+
+    expect(snippets).toHaveLength(1)
+    expect(highlighted(snippets[0])).toEqual(['Geel', 'Geel'])
+  })
+
+  it('should prefer snippets matching more distinct terms, kept in document order', () => {
+    const content = ['Geel alone.', 'Geel alone again.', 'Dymphna alone.', 'Geel and Dymphna together.'].join('\n')
+
+    const snippets = buildSnippets(content, tokenize('geel dymphna'), 2)
+
+    expect(snippets.map(s => s.text)).toEqual(['Geel alone.', 'Geel and Dymphna together.'])
+  })
+
+  it('should show link text and drop markdown syntax', () => {
+    const [snippet] = buildSnippets(
+      '- See [the Geel chapter](/wiki/geel), [[Holy Fools|holy-fool]] and **Majdhub*Mast**.',
+      tokenize('geel majdhub')
+    )
+
+    expect(snippet.text).toBe('See the Geel chapter, Holy Fools and Majdhub Mast.')
+    expect(highlighted(snippet)).toEqual(['Geel', 'Majdhub'])
+  })
+
+  it('should skip code blocks', () => {
+    expect(buildSnippets('```\nGeel\n```', tokenize('geel'))).toEqual([])
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { stem } from '@/lib/stemmer'
+
+describe('stemmer', () => {
+  it('should follow the reference Porter stemmer output', () => {
+    const cases: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      agreed: 'agre',
+      hopping: 'hop',
+      filing: 'file',
+      happy: 'happi',
+      relational: 'relat',
+      generalizations: 'gener',
+      hopefulness: 'hope',
+      adjustment: 'adjust',
+      controll: 'control'
+    }
+
+    for (const [word, expected] of Object.entries(cases)) {
+      expect(stem(word)).toBe(expected)
+    }
+  })
+
+  it('should map word variants to one stem', () => {
+    expect(stem('mystics')).toBe('mystic')
+    expect(stem('mystical')).toBe('mystic')
+    expect(stem('mysticism')).toBe('mystic')
+  })
+
+  it('should leave short words, numbers and non-ASCII text alone', () => {
+    expect(stem('is')).toBe('is')
+    expect(stem('1453')).toBe('1453')
+    expect(stem('güneş')).toBe('güneş')
+  })
+})
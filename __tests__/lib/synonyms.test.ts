@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearSynonymsCache, findSynonyms, loadSynonyms, parseSynonyms } from '@/lib/synonyms'
+
+describe('synonyms', () => {
+  describe('parseSynonyms', () => {
+    it('should read groups from the frontmatter, lowercased and trimmed', () => {
+      const source = '---\nsynonyms:\n  - [Salos, " saloi "]\n  - [majdhub, majzub, Majzub]\n---\n\n# Synonyms\n'
+
+      expect(parseSynonyms(source)).toEqual([
+        ['salos', 'saloi'],
+        ['majdhub', 'majzub']
+      ])
+    })
+
+    it('should drop spellings listed earlier and groups left with one spelling', () => {
+      const source = '---\nsynonyms:\n  - [abdal, abdalan]\n  - [abdalan, abdallar]\n  - [abdal, fana]\n  - [baqa]\n  - beka\n---\n'
+
+      expect(parseSynonyms(source)).toEqual([['abdal', 'abdalan']])
+    })
+
+    it('should return no groups without a synonyms list', () => {
+      expect(parseSynonyms('# Synonyms\n')).toEqual([])
+    })
+  })
+
+  describe('findSynonyms', () => {
+    const groups = [['salos', 'saloi'], ['majdhub', 'majzub', 'mazjub']]
+
+    it('should return the other spellings of a term', () => {
+      expect(findSynonyms(groups, 'Majzub')).toEqual(['majdhub', 'mazjub'])
+    })
+
+    it('should return nothing for unknown terms', () => {
+      expect(findSynonyms(groups, 'geel')).toEqual([])
+    })
+  })
+
+  describe('loadSynonyms', () => {
+    beforeEach(() => {
+      clearSynonymsCache()
+    })
+
+    it('should load the content table and reuse it while unchanged', async () => {
+      const groups = await loadSynonyms()
+
+      expect(findSynonyms(groups, 'saloi')).toEqual(['salos'])
+      expect(await loadSynonyms()).toBe(groups)
+    })
+  })
+})
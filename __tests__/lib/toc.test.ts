@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { extractTOC, addIdsToHeadings } from '@/lib/toc'
+import { extractTOC, addIdsToHeadings, headingId } from '@/lib/toc'
 
 describe('toc', () => {
   describe('extractTOC', () => {
@@ -79,6 +79,16 @@ Regular text here
       })
     })
 
+    it('should leave emphasis markers out of the ids', () => {
+      const content = '## Byzantine Holy Fools and the _Saloi_ Tradition\n## _Abdalan-i Rum_ and Anatolian Heterodox Mysticism'
+      const toc = extractTOC(content)
+
+      expect(toc.map(item => item.id)).toEqual([
+        'byzantine-holy-fools-and-the-saloi-tradition',
+        'abdalan-i-rum-and-anatolian-heterodox-mysticism'
+      ])
+    })
+
     it('should handle headings at beginning and end of content', () => {
       const content = '## First Heading\nSome content\n### Last Heading'
       const toc = extractTOC(content)
@@ -89,6 +99,16 @@ Regular text here
     })
   })
 
+  describe('headingId', () => {
+    it('should slug the rendered text of inline code and links', () => {
+      expect(headingId('The `sema` and [Rum](/wiki/rum) Traditions')).toBe('the-sema-and-rum-traditions')
+    })
+
+    it('should keep underscores inside words', () => {
+      expect(headingId('snake_case Heading')).toBe('snake_case-heading')
+    })
+  })
+
   describe('addIdsToHeadings', () => {
     it('should add IDs to h2 and h3 headings', () => {
       const content = `
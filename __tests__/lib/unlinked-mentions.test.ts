@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { buildLinkGraph, clearLinkGraphCache } from '@/lib/graph-builder'
+import {
+  buildMentionTerms,
+  findUnlinkedMentions,
+  formatUnlinkedMentionsReport,
+  getUnlinkedMentionsTo
+} from '@/lib/unlinked-mentions'
+import { mockContentPage } from '@/__tests__/helpers/content'
+
+vi.mock('@/lib/content', () => ({
+  loadAllPages: vi.fn()
+}))
+
+describe('unlinked-mentions', () => {
+  describe('buildMentionTerms', () => {
+    it('should use titles, title prefixes and keywords', () => {
+      const terms = buildMentionTerms([
+        { slug: 'majdhub', title: 'Majdhub / Mast: The Attracted and the Drunken' },
+        { slug: 'geel', title: 'St. Dymphna and Geel', keywords: ['Geel', 'hagiography'] }
+      ])
+
+      expect(terms.map(t => `${t.term}:${t.slug}:${t.source}`)).toEqual([
+        'Majdhub / Mast: The Attracted and the Drunken:majdhub:title',
+        'St. Dymphna and Geel:geel:title',
+        'Majdhub / Mast:majdhub:title',
+        'hagiography:geel:keyword',
+        'Majdhub:majdhub:title',
+        'Geel:geel:keyword',
+        'Mast:majdhub:title'
+      ])
+    })
+
+    it('should drop ambiguous terms and let titles win over keywords', () => {
+      const terms = buildMentionTerms([
+        { slug: 'majdhub', title: 'Majdhub / Mast: The Attracted' },
+        { slug: 'intro', title: 'Introduction', keywords: ['majdhub', 'mysticism'] },
+        { slug: 'sufi', title: 'Sufi Concepts', keywords: ['mysticism'] }
+      ])
+
+      expect(terms.find(t => t.term.toLowerCase() === 'majdhub')?.slug).toBe('majdhub')
+      expect(terms.find(t => t.term === 'mysticism')).toBeUndefined()
+    })
+
+    it('should add variant spellings, capitalized like the term', () => {
+      const terms = buildMentionTerms([
+        { slug: 'majdhub', title: 'Majdhub / Mast: The Attracted' },
+        { slug: 'abdals', title: 'Abdals and Dervishes', keywords: ['abdal'] }
+      ], [['majdhub', 'majzub'], ['abdal', 'abdalan']])
+
+      expect(terms.filter(t => ['majzub', 'abdalan'].includes(t.term.toLowerCase()))).toEqual([
+        { term: 'abdalan', slug: 'abdals', source: 'keyword' },
+        { term: 'Majzub', slug: 'majdhub', source: 'title' }
+      ])
+    })
+  })
+
+  describe('findUnlinkedMentions', () => {
+    beforeEach(() => {
+      clearLinkGraphCache()
+    })
+
+    const pages = () => [
+      mockContentPage('majdhub', 'The majdhub is attracted.', { title: 'Majdhub / Mast: The Attracted' }),
+      mockContentPage('geel', 'Care in a town.', { title: 'St. Dymphna and Geel', keywords: ['Geel'] }),
+      mockContentPage('preface', [
+        '# Preface',
+        '',
+        '## Travels',
+        '',
+        'I visited **Geel** twice. Later, Geel again.',
+        '',
+        'The [Majdhub](/wiki/majdhub) is linked; `Geel` in code is not a mention.',
+        '',
+        '```',
+        'Geel in a code block',
+        '```'
+      ].join('\n'), { title: 'Preface' }),
+      mockContentPage('conclusion', 'In conclusion, the Majdhub and [a link to Geel](https://example.com/geel).', { title: 'Conclusion' })
+    ]
+
+    it('should report the first unlinked mention per page pair with context', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValue(pages())
+
+      const mentions = await findUnlinkedMentions()
+
+      expect(mentions.map(m => `${m.from}->${m.to}@${m.line}:${m.column} x${m.count}`)).toEqual([
+        'conclusion->majdhub@1:20 x1',
+        'preface->geel@5:13 x2'
+      ])
+
+      const geel = mentions.find(m => m.to === 'geel')!
+      expect(geel.file).toBe('content/chapters/preface.md')
+      expect(geel.term).toBe('Geel')
+      expect(geel.section).toEqual({ id: 'travels', title: 'Travels' })
+      expect(geel.context).toEqual({ before: 'I visited ', anchor: 'Geel', after: ' twice.' })
+    })
+
+    it('should match one-word title fragments only as written', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValue(pages())
+
+      const mentions = await findUnlinkedMentions()
+
+      // "In conclusion" is not a mention of the Conclusion page, "the majdhub" on its own page is a self-mention
+      expect(mentions.some(m => m.to === 'conclusion')).toBe(false)
+      expect(mentions.some(m => m.from === m.to)).toBe(false)
+    })
+
+    it('should list mentions of a page with the mentioning page', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValue(pages())
+
+      const graph = await buildLinkGraph()
+      const mentions = await findUnlinkedMentions()
+      const toGeel = getUnlinkedMentionsTo(graph, mentions, 'geel')
+
+      expect(toGeel).toHaveLength(1)
+      expect(toGeel[0].page.title).toBe('Preface')
+    })
+
+    it('should format an editor report grouped by file', async () => {
+      const { loadAllPages } = await import('@/lib/content')
+      vi.mocked(loadAllPages).mockResolvedValue(pages())
+
+      const report = formatUnlinkedMentionsReport(await findUnlinkedMentions())
+
+      expect(report).toContain('Found 2 unlinked mentions in 2 files')
+      expect(report).toContain('content/chapters/preface.md:5:13  "Geel" -> /wiki/geel (+1 more)')
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import type { Root, Paragraph } from 'mdast'
+import {
+  normalizeLinkKey,
+  buildPageIndex,
+  resolveWikiLink,
+  findWikiLinks,
+  findCodeSpans,
+  isCodeFence,
+  remarkWikiLinks
+} from '@/lib/wikilinks'
+
+const index = buildPageIndex([
+  { slug: 'kaygusuz-abdal-and-alevi-mysticism', title: 'Kaygusuz Abdal and Alevi Mysticism' },
+  { slug: 'introduction-why-sacred-madness', title: 'Introduction: Why "Sacred Madness"?' },
+  { slug: 'preface', title: 'Preface' }
+])
+
+describe('wikilinks', () => {
+  describe('normalizeLinkKey', () => {
+    it('should ignore case, spaces, hyphens and punctuation', () => {
+      expect(normalizeLinkKey('Kaygusuz  Abdal')).toBe('kaygusuz abdal')
+      expect(normalizeLinkKey('kaygusuz-abdal')).toBe('kaygusuz abdal')
+      expect(normalizeLinkKey('Introduction: Why "Sacred Madness"?')).toBe('introduction why sacred madness')
+    })
+  })
+
+  describe('resolveWikiLink', () => {
+    it('should resolve by slug', () => {
+      expect(resolveWikiLink('preface', index)).toBe('preface')
+    })
+
+    it('should resolve by title regardless of case and spacing', () => {
+      expect(resolveWikiLink('kaygusuz abdal and ALEVI mysticism', index)).toBe('kaygusuz-abdal-and-alevi-mysticism')
+      expect(resolveWikiLink('Introduction: Why Sacred Madness', index)).toBe('introduction-why-sacred-madness')
+    })
+
+    it('should fall back to a slugified target for unknown pages', () => {
+      expect(resolveWikiLink('Renamed Page', index)).toBe('renamed-page')
+    })
+  })
+
+  describe('findWikiLinks', () => {
+    it('should find plain and piped wikilinks', () => {
+      const matches = findWikiLinks('See [[Preface]] and [[the Alevi chapter|kaygusuz-abdal-and-alevi-mysticism]].')
+
+      expect(matches).toEqual([
+        { text: 'Preface', target: 'Preface', index: 4, length: 11 },
+        { text: 'the Alevi chapter', target: 'kaygusuz-abdal-and-alevi-mysticism', index: 20, length: 56 }
+      ])
+    })
+  })
+
+  describe('code', () => {
+    it('should find inline code spans and code fences', () => {
+      expect(findCodeSpans('Write `[[majdhub]]` or ``[[a`b]]`` here')).toEqual([[6, 19], [23, 34]])
+      expect(findCodeSpans('A stray ` backtick')).toEqual([])
+      expect(isCodeFence('```markdown')).toBe(true)
+      expect(isCodeFence('  ~~~')).toBe(true)
+      expect(isCodeFence('Use ``` for code')).toBe(false)
+    })
+  })
+
+  describe('remarkWikiLinks', () => {
+    it('should replace wikilinks in text nodes with links', () => {
+      const tree: Root = {
+        type: 'root',
+        children: [{
+          type: 'paragraph',
+          children: [{ type: 'text', value: 'Read the [[preface]] first.' }]
+        }]
+      }
+
+      remarkWikiLinks({ index })(tree)
+
+      const paragraph = tree.children[0] as Paragraph
+      expect(paragraph.children).toEqual([
+        { type: 'text', value: 'Read the ' },
+        { type: 'link', url: '/wiki/preface', children: [{ type: 'text', value: 'preface' }] },
+        { type: 'text', value: ' first.' }
+      ])
+    })
+
+    it('should leave text inside existing links untouched', () => {
+      const tree: Root = {
+        type: 'root',
+        children: [{
+          type: 'paragraph',
+          children: [{
+            type: 'link',
+            url: '/wiki/preface',
+            children: [{ type: 'text', value: '[[preface]]' }]
+          }]
+        }]
+      }
+
+      remarkWikiLinks({ index })(tree)
+
+      const paragraph = tree.children[0] as Paragraph
+      expect(paragraph.children[0]).toEqual({
+        type: 'link',
+        url: '/wiki/preface',
+        children: [{ type: 'text', value: '[[preface]]' }]
+      })
+    })
+  })
+})
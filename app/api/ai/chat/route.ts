@@ -1,12 +1,37 @@
 import { NextResponse } from 'next/server'
-import { readFile } from 'fs/promises'
-import { join } from 'path'
-import matter from 'gray-matter'
 import { APIErrorHandler, checkRateLimit, validateOrigin, sanitizeInput } from '@/lib/api-error-handler'
-import { routeQuery, logRoutingDecision, analyzeQueryComplexity } from '@/lib/ai-router'
-import { buildCachedRequest, extractPageContext } from '@/lib/prompt-cache'
+import { routeQuery, logRoutingDecision, analyzeQueryComplexity, estimateTokens } from '@/lib/ai-router'
+import {
+  buildCachedRequest,
+  extractPageContext,
+  isChatTurn,
+  MAX_HISTORY_TURNS,
+  MAX_SELECTION_HEADING_LENGTH,
+  MAX_SELECTION_LENGTH,
+  type TextSelection
+} from '@/lib/prompt-cache'
 import { logClaudeCall } from '@/lib/cost-tracker'
-
+import { getPage, listSlugs } from '@/lib/content'
+import { proxyChatCompletion } from '@/lib/chat-stream'
+import { findPassages, type Passage } from '@/lib/passage-index'
+import { findUnsupportedCitations, toCitedSources } from '@/lib/citations'
+
+const DEFAULT_OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1'
+
+/**
+ * AI Chat
+ *
+ * Answers a question about the wiki from passages retrieved across all
+ * pages, following up on the earlier turns in `context` and on the text
+ * selected on the page (`selectedText`, `selectedHeading`), as a
+ * server-sent event stream of
+ * `token` events, ending with `done` or `error` (see lib/chat-stream.ts).
+ * Before `done`, a `citations` event lists the passages the answer may cite
+ * and flags claims citing anything else (see lib/citations.ts).
+ * Errors before the answer starts are returned as JSON like other routes.
+ * OPENROUTER_BASE_URL points the route at another upstream, such as the
+ * mock server from `npm run mock:openrouter`.
+ */
 export async function POST(request: Request) {
   return APIErrorHandler.withErrorHandling(async () => {
     // Validate origin for security
@@ -21,7 +46,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { message, slug } = body
+    const { message, slug, context = [], selectedText, selectedHeading } = body
 
     // Validate required fields
     APIErrorHandler.validateRequest(body, ['message'])
@@ -32,6 +57,36 @@ export async function POST(request: Request) {
       throw APIErrorHandler.createError('Invalid message format or length', 400, 'INVALID_MESSAGE')
     }
 
+    // Earlier turns of the conversation, oldest first
+    if (!Array.isArray(context) || context.length > MAX_HISTORY_TURNS || !context.every(isChatTurn)) {
+      throw APIErrorHandler.createError(
+        `context must be a list of at most ${MAX_HISTORY_TURNS} {role, content} turns`,
+        400,
+        'INVALID_PARAM'
+      )
+    }
+    const history = context.map(turn => ({ role: turn.role, content: sanitizeInput(turn.content) }))
+
+    // Text selected on the page, and the section it is in
+    if (selectedText !== undefined && (typeof selectedText !== 'string' || selectedText.length > MAX_SELECTION_LENGTH)) {
+      throw APIErrorHandler.createError(
+        `selectedText must be a string of at most ${MAX_SELECTION_LENGTH} characters`,
+        400,
+        'INVALID_PARAM'
+      )
+    }
+    if (selectedHeading !== undefined && (typeof selectedHeading !== 'string' || selectedHeading.length > MAX_SELECTION_HEADING_LENGTH)) {
+      throw APIErrorHandler.createError(
+        `selectedHeading must be a string of at most ${MAX_SELECTION_HEADING_LENGTH} characters`,
+        400,
+        'INVALID_PARAM'
+      )
+    }
+    const selectionText = selectedText ? sanitizeInput(selectedText) : ''
+    const selection: TextSelection | undefined = selectionText
+      ? { text: selectionText, heading: (selectedHeading && sanitizeInput(selectedHeading)) || undefined }
+      : undefined
+
     // Validate API key
     if (!process.env.OPENROUTER_API_KEY) {
       throw APIErrorHandler.createError('AI service not configured', 503, 'SERVICE_UNAVAILABLE')
@@ -41,21 +96,40 @@ export async function POST(request: Request) {
     let pageContext: string | undefined
     if (slug) {
       try {
-        const sanitizedSlug = sanitizeInput(slug)
-        const filePath = join(process.cwd(), 'content/chapters', `${sanitizedSlug}.md`)
-        const source = await readFile(filePath, 'utf8')
-        const { data: frontmatter, content } = matter(source)
-        const fullContext = `Current Page: ${frontmatter.title}\n\n${content}`
-        pageContext = extractPageContext(fullContext, 2000)
+        const page = await getPage(sanitizeInput(String(slug)))
+        if (page) {
+          const fullContext = `Current Page: ${page.frontmatter.title}\n\n${page.content}`
+          pageContext = extractPageContext(fullContext, 2000)
+        }
       } catch (error) {
         // Log but don't fail - page context is optional
         console.warn('Could not load page context for slug:', slug, error)
       }
     }
 
+    // Retrieve passages from the whole wiki; a question about a selection
+    // ("explain this") is matched together with the selection, and a
+    // follow-up ("who was the first?") with the question before it.
+    // The wiki's slugs tell citation markers from notes like [1] or [sic]
+    let passages: Passage[] = []
+    let pageSlugs: string[] = []
+    try {
+      const previousQuestion = history.filter(turn => turn.role === 'user').pop()?.content || ''
+      const about = selection ? `${selection.heading || ''} ${selection.text}` : previousQuestion
+      const [retrieved, slugs] = await Promise.all([
+        findPassages(`${about} ${sanitizedMessage}`, { slug: typeof slug === 'string' ? slug : undefined }),
+        listSlugs()
+      ])
+      passages = retrieved.map(({ passage }) => passage)
+      pageSlugs = slugs
+    } catch (error) {
+      // Log but don't fail - the model can still answer without passages
+      console.warn('Could not retrieve passages:', error)
+    }
+
     // Route query to appropriate model (Haiku vs Sonnet)
-    const complexity = analyzeQueryComplexity(sanitizedMessage)
-    const modelConfig = routeQuery(sanitizedMessage)
+    const complexity = analyzeQueryComplexity(sanitizedMessage, selection?.text)
+    const modelConfig = routeQuery(sanitizedMessage, selection?.text)
     logRoutingDecision(sanitizedMessage, modelConfig, complexity)
 
     // Build request with prompt caching
@@ -63,10 +137,18 @@ export async function POST(request: Request) {
       modelConfig.model,
       sanitizedMessage,
       modelConfig.maxTokens,
-      pageContext
+      pageContext,
+      selection,
+      history,
+      passages
     )
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    // Aborted when the reader stops the answer or disconnects
+    const upstreamAbort = new AbortController()
+    request.signal?.addEventListener('abort', () => upstreamAbort.abort())
+
+    const baseUrl = process.env.OPENROUTER_BASE_URL || DEFAULT_OPENROUTER_BASE_URL
+    const response = await fetch(`${baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
@@ -74,7 +156,8 @@ export async function POST(request: Request) {
         'HTTP-Referer': 'https://sacred-madness.vercel.app',
         'X-Title': 'Sacred Madness Wiki'
       },
-      body: JSON.stringify(requestBody)
+      body: JSON.stringify({ ...requestBody, stream: true, usage: { include: true } }),
+      signal: upstreamAbort.signal
     })
 
     if (!response.ok) {
@@ -87,34 +170,52 @@ export async function POST(request: Request) {
       )
     }
 
-    const data = await response.json()
-
-    if (!data.choices?.[0]?.message?.content) {
+    if (!response.body) {
       throw APIErrorHandler.createError('Invalid AI response format', 502, 'INVALID_AI_RESPONSE')
     }
 
-    // Extract token usage and log costs
-    const usage = data.usage || {}
-    const inputTokens = usage.prompt_tokens || 0
-    const outputTokens = usage.completion_tokens || 0
-    const cachedTokens = usage.prompt_tokens_details?.cached_tokens || 0
-    const cacheHit = cachedTokens > 0
-
     // Determine model type (haiku or sonnet) from model config
     const modelType = modelConfig.model.includes('haiku') ? 'haiku' : 'sonnet'
 
-    // Log the API call for cost tracking
-    logClaudeCall({
-      model: modelType,
-      inputTokens,
-      outputTokens,
-      cachedTokens,
-      cacheHit,
-      success: true
+    const sources = toCitedSources(passages)
+
+    const stream = proxyChatCompletion(response.body, {
+      onCancel: () => upstreamAbort.abort(),
+      onComplete: text => {
+        // Claims citing a passage the model was never given are unverifiable
+        const unsupported = findUnsupportedCitations(text, sources, pageSlugs)
+        if (unsupported.length > 0) {
+          console.warn('AI answer cites sources it was not given:', unsupported.map(({ key }) => key))
+        }
+        return [{ type: 'citations', sources, unsupported }]
+      },
+      onFinish: ({ text, usage, error }) => {
+        // Upstream reports usage in its last chunk; estimate it for answers stopped early
+        const inputTokens = usage?.inputTokens ?? estimateTokens(JSON.stringify(requestBody.messages))
+        const outputTokens = usage?.outputTokens ?? estimateTokens(text)
+        const cachedTokens = usage?.cachedTokens ?? 0
+
+        // Log the API call for cost tracking
+        logClaudeCall({
+          model: modelType,
+          inputTokens,
+          outputTokens,
+          cachedTokens,
+          cacheHit: cachedTokens > 0,
+          success: !error,
+          error
+        })
+      }
     })
 
-    return NextResponse.json({
-      message: data.choices[0].message.content
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'X-Accel-Buffering': 'no',
+        // Model the question was routed to, recorded with saved conversations
+        'X-Chat-Model': modelConfig.model
+      }
     })
 
   }, 'AI Chat API')
@@ -1,7 +1,5 @@
 import { NextResponse } from 'next/server'
-import { readFile } from 'fs/promises'
-import { join } from 'path'
-import matter from 'gray-matter'
+import { getPage, isValidSlug } from '@/lib/content'
 
 export async function GET(
   request: Request,
@@ -9,20 +7,34 @@ export async function GET(
 ) {
   const { slug } = await params
 
+  if (!isValidSlug(slug)) {
+    return NextResponse.json(
+      { error: 'Invalid slug' },
+      { status: 400 }
+    )
+  }
+
   try {
-    const filePath = join(process.cwd(), 'content/chapters', `${slug}.md`)
-    const source = await readFile(filePath, 'utf8')
-    const { data: frontmatter, content } = matter(source)
+    const page = await getPage(slug)
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      )
+    }
+
+    const { collection, frontmatter, content } = page
 
     // Return clean content optimized for AI consumption
     return NextResponse.json({
       slug,
+      collection,
       title: frontmatter.title,
       description: frontmatter.description,
       category: frontmatter.category,
-      keywords: frontmatter.keywords || [],
-      related: frontmatter.related || [],
-      seeAlso: frontmatter.seeAlso || [],
+      keywords: frontmatter.keywords,
+      related: frontmatter.related,
+      seeAlso: frontmatter.seeAlso,
       content: content,
       wordCount: content.split(/\s+/).length,
       url: `https://sacred-madness.vercel.app/wiki/${slug}`
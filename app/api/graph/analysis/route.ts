@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { buildLinkGraph, analyzeGraph } from '@/lib/graph-builder'
+import { APIErrorHandler, checkRateLimit, validateOrigin } from '@/lib/api-error-handler'
+
+/**
+ * Graph Analysis API
+ *
+ * Structural report over the link graph: orphan and dead-end pages,
+ * PageRank/betweenness centrality, connected components and keyword
+ * communities. Used by editors to find pages that need more links.
+ */
+export async function GET(request: Request) {
+  return APIErrorHandler.withErrorHandling(async () => {
+    // Validate origin for security
+    if (!validateOrigin(request)) {
+      throw APIErrorHandler.createError('Forbidden origin', 403, 'INVALID_ORIGIN')
+    }
+
+    // Rate limiting (same budget as the graph API)
+    const clientIP = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!checkRateLimit(clientIP, 60, 60000)) { // 60 requests per minute
+      throw APIErrorHandler.createError('Rate limit exceeded', 429, 'RATE_LIMITED')
+    }
+
+    const graph = await buildLinkGraph()
+
+    if (!graph || !graph.pages) {
+      throw APIErrorHandler.createError('Graph data unavailable', 503, 'GRAPH_BUILD_FAILED')
+    }
+
+    const analysis = analyzeGraph(graph)
+
+    return NextResponse.json({
+      ...analysis,
+      stats: {
+        totalPages: graph.pages.size,
+        orphanCount: analysis.orphans.length,
+        deadEndCount: analysis.deadEnds.length,
+        componentCount: analysis.components.length,
+        communityCount: analysis.communities.length
+      }
+    })
+
+  }, 'Graph Analysis API')
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { buildLinkGraph, getBrokenLinksBySource } from '@/lib/graph-builder'
+import { APIErrorHandler, checkRateLimit, validateOrigin } from '@/lib/api-error-handler'
+
+/**
+ * Broken Links API
+ *
+ * Lists wiki links (inline and frontmatter) whose target page does not exist,
+ * with the source file and line so editors can fix them after renames.
+ */
+export async function GET(request: Request) {
+  return APIErrorHandler.withErrorHandling(async () => {
+    // Validate origin for security
+    if (!validateOrigin(request)) {
+      throw APIErrorHandler.createError('Forbidden origin', 403, 'INVALID_ORIGIN')
+    }
+
+    // Rate limiting (same budget as the graph API)
+    const clientIP = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!checkRateLimit(clientIP, 60, 60000)) { // 60 requests per minute
+      throw APIErrorHandler.createError('Rate limit exceeded', 429, 'RATE_LIMITED')
+    }
+
+    const graph = await buildLinkGraph()
+
+    if (!graph || !graph.pages) {
+      throw APIErrorHandler.createError('Graph data unavailable', 503, 'GRAPH_BUILD_FAILED')
+    }
+
+    const bySource = getBrokenLinksBySource(graph)
+
+    return NextResponse.json({
+      brokenLinks: graph.brokenLinks,
+      bySource: Object.fromEntries(bySource),
+      stats: {
+        totalBrokenLinks: graph.brokenLinks.length,
+        affectedPages: bySource.size,
+        missingTargets: [...new Set(graph.brokenLinks.map(link => link.to))]
+      }
+    })
+
+  }, 'Broken Links API')
+}
@@ -21,20 +21,22 @@ export async function GET(request: Request) {
       throw APIErrorHandler.createError('Graph data unavailable', 503, 'GRAPH_BUILD_FAILED')
     }
 
-    // Convert Maps and Sets to plain objects for JSON serialization
+    // Convert Maps to plain objects for JSON serialization
     const pages = Array.from(graph.pages.values())
-    const edges = []
 
-    for (const [from, toSet] of graph.forwardLinks.entries()) {
-      for (const to of toSet) {
-        edges.push({ from, to })
-      }
+    // Typed edges: one per source, target and link type (related / seeAlso / inline)
+    const edges = graph.edges.map(({ from, to, type, count, sections }) => ({ from, to, type, count, sections }))
+
+    const linksByType = { related: 0, seeAlso: 0, inline: 0 }
+    for (const edge of edges) {
+      linksByType[edge.type]++
     }
 
     return NextResponse.json({
       nodes: pages.map(p => ({
         id: p.slug,
         title: p.title,
+        collection: p.collection,
         category: p.category,
         keywords: p.keywords,
         url: `https://sacred-madness.vercel.app/wiki/${p.slug}`
@@ -43,6 +45,7 @@ export async function GET(request: Request) {
       stats: {
         totalPages: pages.length,
         totalLinks: edges.length,
+        linksByType,
         categories: [...new Set(pages.map(p => p.category).filter(Boolean))]
       }
     })
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { isValidSlug } from '@/lib/content'
+import { findUnlinkedMentions, groupMentionsByFile } from '@/lib/unlinked-mentions'
+import { APIErrorHandler, checkRateLimit, validateOrigin } from '@/lib/api-error-handler'
+
+/**
+ * Unlinked Mentions API
+ *
+ * Lists places where a chapter mentions another page's title or keywords
+ * without linking to it, with file and line, as suggested links for editors.
+ * `?to=slug` restricts the report to mentions of one page.
+ */
+export async function GET(request: Request) {
+  return APIErrorHandler.withErrorHandling(async () => {
+    // Validate origin for security
+    if (!validateOrigin(request)) {
+      throw APIErrorHandler.createError('Forbidden origin', 403, 'INVALID_ORIGIN')
+    }
+
+    // Rate limiting (same budget as the graph API)
+    const clientIP = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!checkRateLimit(clientIP, 60, 60000)) { // 60 requests per minute
+      throw APIErrorHandler.createError('Rate limit exceeded', 429, 'RATE_LIMITED')
+    }
+
+    const to = new URL(request.url).searchParams.get('to')
+    if (to !== null && !isValidSlug(to)) {
+      throw APIErrorHandler.createError('Invalid slug', 400, 'INVALID_SLUG')
+    }
+
+    const allMentions = await findUnlinkedMentions()
+    const mentions = to ? allMentions.filter(mention => mention.to === to) : allMentions
+    const byFile = groupMentionsByFile(mentions)
+
+    return NextResponse.json({
+      mentions,
+      byFile: Object.fromEntries(byFile),
+      stats: {
+        totalMentions: mentions.length,
+        affectedFiles: byFile.size,
+        mentionedPages: [...new Set(mentions.map(mention => mention.to))]
+      }
+    })
+
+  }, 'Unlinked Mentions API')
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { isValidSlug } from '@/lib/content'
+import { isSearchId, logSearchClick } from '@/lib/search-log'
+import { APIErrorHandler, checkRateLimit, validateOrigin } from '@/lib/api-error-handler'
+
+/**
+ * Search Click Beacon
+ *
+ * Records that a search result was opened, for click-through rates in the
+ * analytics collector. Sent with navigator.sendBeacon, so the JSON body may
+ * arrive as text/plain; nothing is returned.
+ */
+export async function POST(request: Request) {
+  return APIErrorHandler.withErrorHandling(async () => {
+    // Validate origin for security
+    if (!validateOrigin(request)) {
+      throw APIErrorHandler.createError('Forbidden origin', 403, 'INVALID_ORIGIN')
+    }
+
+    // Rate limiting (one beacon per opened result)
+    const clientIP = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!checkRateLimit(`search-click:${clientIP}`, 60, 60000)) { // 60 clicks per minute
+      throw APIErrorHandler.createError('Rate limit exceeded', 429, 'RATE_LIMITED')
+    }
+
+    let body: { searchId?: unknown; slug?: unknown; position?: unknown }
+    try {
+      body = JSON.parse(await request.text())
+    } catch {
+      throw APIErrorHandler.createError('Body must be JSON', 400, 'VALIDATION_ERROR')
+    }
+
+    const { searchId, slug, position } = body ?? {}
+    if (!isSearchId(searchId)) {
+      throw APIErrorHandler.createError('searchId must be a search id', 400, 'INVALID_PARAM')
+    }
+    if (typeof slug !== 'string' || !isValidSlug(slug)) {
+      throw APIErrorHandler.createError('slug must be a page slug', 400, 'INVALID_PARAM')
+    }
+    if (!Number.isInteger(position) || (position as number) < 1) {
+      throw APIErrorHandler.createError('position must be a positive integer', 400, 'INVALID_PARAM')
+    }
+
+    await logSearchClick({ id: searchId, slug, position: position as number })
+    return new NextResponse(null, { status: 204 })
+
+  }, 'Search Click API')
+}
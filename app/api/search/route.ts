@@ -1,9 +1,49 @@
 import { NextResponse } from 'next/server'
-import { readdir, readFile } from 'fs/promises'
-import { join } from 'path'
-import matter from 'gray-matter'
+import { COLLECTIONS, type Collection } from '@/lib/content'
+import {
+  getSearchFacets,
+  getSearchIndex,
+  searchIndex,
+  SEARCH_SORTS,
+  type SearchIndex,
+  type SearchSort
+} from '@/lib/search-index'
+import { buildSnippets } from '@/lib/search-snippets'
+import { isSearchId, logSearch } from '@/lib/search-log'
 import { APIErrorHandler, checkRateLimit, validateOrigin, sanitizeInput } from '@/lib/api-error-handler'
 
+const MAX_QUERY_LENGTH = 200
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50 // Limit page size to keep responses small
+
+/**
+ * Read a positive integer parameter, or the default when it is absent
+ */
+function getPositiveInt(searchParams: URLSearchParams, name: string, fallback: number, max = Infinity): number {
+  const raw = searchParams.get(name)
+  if (raw === null) return fallback
+
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    const range = max === Infinity ? 'a positive integer' : `an integer from 1 to ${max}`
+    throw APIErrorHandler.createError(`${name} must be ${range}`, 400, 'INVALID_PARAM')
+  }
+  return value
+}
+
+/**
+ * Search API
+ *
+ * Ranked full-text search over the prebuilt index (see lib/search-index.ts)
+ * using the query syntax in lib/search-query.ts, with highlighted snippets
+ * that link to the heading they appear under. Facet counts cover all
+ * matches; results are paged with `page` and `pageSize` and can be limited
+ * to one collection with `collection`.
+ *
+ * The first page of each search is logged anonymously (lib/search-log.ts)
+ * and its `searchId` returned so clicks can be reported to /api/search/click.
+ * Pass the previous id as `refines` when the query was edited while typing.
+ */
 export async function GET(request: Request) {
   return APIErrorHandler.withErrorHandling(async () => {
     // Validate origin for security
@@ -24,78 +64,82 @@ export async function GET(request: Request) {
       throw APIErrorHandler.createError('Query parameter required', 400, 'MISSING_QUERY')
     }
 
-    // Sanitize and validate query
-    const query = sanitizeInput(rawQuery).toLowerCase()
+    // Sanitize and validate query (kept in its case: AND/OR/NOT are operators)
+    const query = sanitizeInput(rawQuery)
     if (!query || query.length < 2) {
       throw APIErrorHandler.createError('Query must be at least 2 characters', 400, 'INVALID_QUERY')
     }
 
-    if (query.length > 100) {
-      throw APIErrorHandler.createError('Query too long (max 100 characters)', 400, 'QUERY_TOO_LONG')
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw APIErrorHandler.createError(`Query too long (max ${MAX_QUERY_LENGTH} characters)`, 400, 'QUERY_TOO_LONG')
+    }
+
+    const page = getPositiveInt(searchParams, 'page', 1)
+    const pageSize = getPositiveInt(searchParams, 'pageSize', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+
+    const sort = (searchParams.get('sort') || 'relevance') as SearchSort
+    if (!SEARCH_SORTS.includes(sort)) {
+      throw APIErrorHandler.createError(`sort must be one of: ${SEARCH_SORTS.join(', ')}`, 400, 'INVALID_PARAM')
+    }
+
+    const collection = searchParams.get('collection') as Collection | null
+    if (collection !== null && !COLLECTIONS.includes(collection)) {
+      throw APIErrorHandler.createError(`collection must be one of: ${COLLECTIONS.join(', ')}`, 400, 'INVALID_PARAM')
+    }
+
+    const refines = searchParams.get('refines')
+    if (refines !== null && !isSearchId(refines)) {
+      throw APIErrorHandler.createError('refines must be a search id', 400, 'INVALID_PARAM')
     }
 
-    const chaptersDir = join(process.cwd(), 'content/chapters')
-    
-    let files: string[]
+    let index: SearchIndex
     try {
-      files = await readdir(chaptersDir)
+      index = await getSearchIndex()
     } catch {
       throw APIErrorHandler.createError('Content directory not accessible', 503, 'CONTENT_UNAVAILABLE')
     }
 
-    const results = []
-    const maxResults = 50 // Limit results to prevent performance issues
-
-    for (const file of files) {
-      if (!file.endsWith('.md')) continue
-      if (results.length >= maxResults) break
-
-      try {
-        const slug = file.replace('.md', '')
-        const filePath = join(chaptersDir, file)
-        const source = await readFile(filePath, 'utf8')
-        const { data: frontmatter, content } = matter(source)
-
-        // Search in title, description, keywords, and content
-        const searchableText = [
-          frontmatter.title || '',
-          frontmatter.description || '',
-          ...(frontmatter.keywords || []),
-          content || ''
-        ].join(' ').toLowerCase()
-
-        if (searchableText.includes(query)) {
-          // Find context around the match
-          const lines = content.split('\n')
-          const matchingLines = lines
-            .filter(line => line.toLowerCase().includes(query))
-            .slice(0, 3)
-            .map(line => line.trim())
-            .filter(line => line.length > 0)
-
-          results.push({
-            slug,
-            title: frontmatter.title || slug,
-            description: frontmatter.description || '',
-            category: frontmatter.category || null,
-            keywords: frontmatter.keywords || [],
-            matches: matchingLines,
-            url: `https://sacred-madness.vercel.app/wiki/${slug}`
-          })
-        }
-      } catch (fileError) {
-        // Log individual file errors but continue processing
-        console.warn(`Error processing file ${file}:`, fileError)
-        continue
-      }
-    }
+    const { corrections, results } = searchIndex(index, query, { sort, collection: collection ?? undefined })
+    const pageResults = results.slice((page - 1) * pageSize, page * pageSize)
+
+    // Later pages repeat a search that was already logged
+    const searchId = page === 1
+      ? await logSearch({ query, results: results.length, corrected: corrections.length > 0, refines: refines ?? undefined })
+      : null
 
     return NextResponse.json({
+      searchId,
       query: rawQuery,
       sanitizedQuery: query,
-      count: results.length,
-      results: results.slice(0, maxResults), // Ensure we don't exceed limit
-      maxResults
+      total: results.length,
+      count: pageResults.length,
+      page,
+      pageSize,
+      totalPages: Math.ceil(results.length / pageSize),
+      sort,
+      collection,
+      corrections,
+      facets: getSearchFacets(results, index),
+      results: pageResults.map(result => {
+        const url = `https://sacred-madness.vercel.app/wiki/${result.slug}`
+        const snippets = buildSnippets(index.documents.get(result.slug)!.content, result.terms)
+
+        return {
+          slug: result.slug,
+          collection: result.collection,
+          title: result.title,
+          description: result.description,
+          category: result.category,
+          keywords: result.keywords,
+          wordCount: result.wordCount,
+          score: Math.round(result.score * 1000) / 1000,
+          snippets: snippets.map(snippet => ({
+            ...snippet,
+            url: snippet.section ? `${url}#${snippet.section.id}` : url
+          })),
+          url
+        }
+      })
     })
 
   }, 'Search API')
@@ -0,0 +1,38 @@
+import WikiLayout from '@/components/WikiLayout'
+import { KnowledgeGraph } from '@/components/KnowledgeGraph'
+import { buildLinkGraph, toGraphData, type GraphData } from '@/lib/graph-builder'
+
+export const metadata = {
+  title: 'Knowledge Graph | Sacred Madness Wiki',
+  description: 'Explore how the chapters of the Sacred Madness wiki link to one another',
+}
+
+export default async function GraphPage() {
+  const breadcrumbs = [
+    { label: 'Home', href: '/' },
+    { label: 'Knowledge Graph' }
+  ]
+
+  let data: GraphData = { nodes: [], edges: [] }
+  try {
+    data = toGraphData(await buildLinkGraph())
+  } catch (error) {
+    console.error('Error building link graph:', error)
+  }
+
+  return (
+    <WikiLayout breadcrumbs={breadcrumbs}>
+      <h1 className="text-4xl font-bold mb-4">Knowledge Graph</h1>
+      <p className="text-muted-foreground mb-6">
+        Every chapter and the links between them. Hover a page for a preview, click to open it,
+        or filter by category and keyword.
+      </p>
+
+      {data.nodes.length > 0 ? (
+        <KnowledgeGraph data={data} showFilters height={600} />
+      ) : (
+        <p className="text-muted-foreground">The knowledge graph is currently unavailable.</p>
+      )}
+    </WikiLayout>
+  )
+}
@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { ThemeProvider } from "next-themes";
 import { WebVitalsReporter } from "@/components/WebVitalsReporter";
+import { AIChat } from "@/components/AIChat";
+import { AIChatErrorBoundary } from "@/components/error-boundaries";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -36,6 +38,10 @@ export default function RootLayout({
           disableTransitionOnChange={false}
         >
           {children}
+          {/* AI Research Assistant (floating chat), kept across navigation */}
+          <AIChatErrorBoundary>
+            <AIChat />
+          </AIChatErrorBoundary>
         </ThemeProvider>
         <WebVitalsReporter />
       </body>
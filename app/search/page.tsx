@@ -0,0 +1,36 @@
+import WikiLayout from '@/components/WikiLayout'
+import { SearchResults } from '@/components/SearchResults'
+import { SEARCH_SORTS, type SearchSort } from '@/lib/search-index'
+
+interface SearchPageProps {
+  searchParams: Promise<{
+    q?: string
+    page?: string
+    sort?: string
+  }>
+}
+
+export const metadata = {
+  title: 'Search | Sacred Madness Wiki',
+  description: 'Search the chapters and research paper of the Sacred Madness wiki',
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const { q = '', page = '1', sort = 'relevance' } = await searchParams
+
+  const breadcrumbs = [
+    { label: 'Home', href: '/' },
+    { label: 'Search' }
+  ]
+
+  // Bad values in a hand-edited URL fall back to the defaults
+  const pageNumber = Math.max(1, Math.floor(Number(page)) || 1)
+  const sortOrder = SEARCH_SORTS.includes(sort as SearchSort) ? sort as SearchSort : 'relevance'
+
+  return (
+    <WikiLayout breadcrumbs={breadcrumbs}>
+      <h1 className="text-4xl font-bold mb-6">Search</h1>
+      <SearchResults query={q.trim()} page={pageNumber} sort={sortOrder} />
+    </WikiLayout>
+  )
+}
@@ -1,22 +1,27 @@
 import { notFound } from 'next/navigation'
-import { readFile, readdir } from 'fs/promises'
-import { join } from 'path'
-import matter from 'gray-matter'
 import { MDXRemote } from 'next-mdx-remote/rsc'
 import WikiLayout from '@/components/WikiLayout'
-import { mdxComponents } from '@/lib/mdx-components'
+import { mdxComponents, createMdxComponents } from '@/lib/mdx-components'
 import { extractTOC } from '@/lib/toc'
-import { buildLinkGraph, getBacklinks, getRelatedPages, getCategoryPages } from '@/lib/graph-builder'
+import { getPage, listSlugs } from '@/lib/content'
+import { validateContent, formatValidationReport } from '@/lib/content-schema'
+import { buildPageIndex, remarkWikiLinks } from '@/lib/wikilinks'
+import { buildLinkGraph, getBacklinkDetails, getRelatedPages, getCategoryPages, getNeighborhood, toGraphData, type BacklinkDetail, type GraphData } from '@/lib/graph-builder'
+import { findUnlinkedMentions, getUnlinkedMentionsTo } from '@/lib/unlinked-mentions'
 import { Backlinks } from '@/components/Backlinks'
+import { UnlinkedMentions } from '@/components/UnlinkedMentions'
 import { SeeAlso } from '@/components/SeeAlso'
 import { CategoryPages } from '@/components/CategoryPages'
 import { SchemaOrg } from '@/components/SchemaOrg'
-import { AIChat } from '@/components/AIChat'
+import { LocalGraph } from '@/components/LocalGraph'
+import { SelectionPopover } from '@/components/SelectionPopover'
 import { AIChatErrorBoundary, WikiLayoutErrorBoundary, MDXErrorBoundary } from '@/components/error-boundaries'
 import remarkGfm from 'remark-gfm'
 import rehypeSlug from 'rehype-slug'
 import rehypeAutolinkHeadings from 'rehype-autolink-headings'
 
+const LOCAL_GRAPH_HOPS = 2
+
 interface PageProps {
   params: Promise<{
     slug: string
@@ -24,16 +29,20 @@ interface PageProps {
 }
 
 export async function generateStaticParams() {
-  // Return all possible wiki page slugs from content/chapters
-  const chaptersDir = join(process.cwd(), 'content/chapters')
+  // Validate frontmatter before generating pages - a typo must not ship silently
+  const report = await validateContent()
+  if (report.errors.length > 0) {
+    const message = formatValidationReport(report)
+    if (process.env.CI) {
+      throw new Error(`Frontmatter validation failed:\n${message}`)
+    }
+    console.warn(message)
+  }
 
+  // Return all possible wiki page slugs from every collection
   try {
-    const files = await readdir(chaptersDir)
-    return files
-      .filter((file: string) => file.endsWith('.md'))
-      .map((file: string) => ({
-        slug: file.replace('.md', '')
-      }))
+    const slugs = await listSlugs()
+    return slugs.map(slug => ({ slug }))
   } catch {
     return []
   }
@@ -42,26 +51,36 @@ export async function generateStaticParams() {
 export default async function WikiPage({ params }: PageProps) {
   const { slug } = await params
 
+  const page = await getPage(slug)
+  if (!page) {
+    notFound()
+  }
+
   try {
-    // Try to read from chapters first
-    const filePath = join(process.cwd(), 'content/chapters', `${slug}.md`)
-    const source = await readFile(filePath, 'utf8')
-    const { data: frontmatter, content } = matter(source)
+    const { frontmatter, content } = page
 
     // Extract TOC from content
     const tocItems = extractTOC(content)
 
     // Build link graph for backlinks and related pages (with error handling)
-    let backlinks: Array<{ slug: string; title: string }> = []
+    let backlinks: BacklinkDetail[] = []
+    let unlinkedMentions: ReturnType<typeof getUnlinkedMentionsTo> = []
     let relatedPages: Array<{ slug: string; title: string }> = []
     let categoryPages: Array<{ slug: string; title: string }> = []
     let currentPage: { slug: string; title: string; description?: string; category?: string; keywords?: string[] } | null = null
+    let components = mdxComponents
+    let pageIndex = buildPageIndex([])
+    let localGraph: GraphData = { nodes: [], edges: [] }
     try {
       const graph = await buildLinkGraph()
-      backlinks = getBacklinks(graph, slug)
+      components = createMdxComponents(new Set(graph.pages.keys()))
+      pageIndex = buildPageIndex(Array.from(graph.pages.values()))
+      backlinks = getBacklinkDetails(graph, slug)
+      unlinkedMentions = getUnlinkedMentionsTo(graph, await findUnlinkedMentions(), slug)
       relatedPages = getRelatedPages(graph, slug)
       categoryPages = getCategoryPages(graph, slug)
       currentPage = graph.pages.get(slug) || null
+      localGraph = toGraphData(graph, getNeighborhood(graph, slug, LOCAL_GRAPH_HOPS))
     } catch (error) {
       console.error('Error building link graph:', error)
       // Graceful degradation: continue without these features
@@ -71,7 +90,7 @@ export default async function WikiPage({ params }: PageProps) {
     const breadcrumbs = [
       { label: 'Home', href: '/' },
       { label: 'Wiki', href: '/wiki' },
-      { label: frontmatter.title || slug }
+      { label: frontmatter.title }
     ]
 
     // Build URL for Schema.org
@@ -94,13 +113,16 @@ export default async function WikiPage({ params }: PageProps) {
             breadcrumbs={breadcrumbs}
             tocItems={tocItems}
           >
-            <MDXErrorBoundary contentTitle={frontmatter.title || slug}>
+            <MDXErrorBoundary contentTitle={frontmatter.title}>
               <MDXRemote
                 source={content}
-                components={mdxComponents}
+                components={components}
                 options={{
                   mdxOptions: {
-                    remarkPlugins: [remarkGfm],
+                    remarkPlugins: [
+                      remarkGfm,
+                      [remarkWikiLinks, { index: pageIndex }]
+                    ],
                     rehypePlugins: [
                       rehypeSlug,
                       [rehypeAutolinkHeadings, { behavior: 'wrap' }]
@@ -117,7 +139,15 @@ export default async function WikiPage({ params }: PageProps) {
 
             {/* Zettelkasten-style backlinks */}
             {backlinks.length > 0 && (
-              <Backlinks pages={backlinks} />
+              <Backlinks links={backlinks} />
+            )}
+            {unlinkedMentions.length > 0 && (
+              <UnlinkedMentions mentions={unlinkedMentions} />
+            )}
+
+            {/* Obsidian-style local graph (N-hop neighbors) */}
+            {localGraph.nodes.length > 1 && (
+              <LocalGraph data={localGraph} slug={slug} hops={LOCAL_GRAPH_HOPS} />
             )}
 
             {/* Category pages */}
@@ -127,9 +157,9 @@ export default async function WikiPage({ params }: PageProps) {
           </WikiLayout>
         </WikiLayoutErrorBoundary>
 
-        {/* AI Research Assistant (floating chat) */}
+        {/* Popover asking the AI Research Assistant (root layout) about selected text */}
         <AIChatErrorBoundary>
-          <AIChat slug={slug} />
+          <SelectionPopover />
         </AIChatErrorBoundary>
       </>
     )
@@ -143,16 +173,21 @@ export async function generateMetadata({ params }: PageProps) {
   const { slug } = await params
 
   try {
-    const filePath = join(process.cwd(), 'content/chapters', `${slug}.md`)
-    const source = await readFile(filePath, 'utf8')
-    const { data: frontmatter } = matter(source)
+    const page = await getPage(slug)
+    if (!page) {
+      return {
+        title: 'Page Not Found | Sacred Madness Wiki',
+      }
+    }
+
+    const { frontmatter } = page
 
     return {
-      title: `${frontmatter.title || slug} | Sacred Madness Wiki`,
-      description: frontmatter.description || `Learn about ${frontmatter.title || slug}`,
-      keywords: frontmatter.keywords || [],
+      title: `${frontmatter.title} | Sacred Madness Wiki`,
+      description: frontmatter.description || `Learn about ${frontmatter.title}`,
+      keywords: frontmatter.keywords,
       openGraph: {
-        title: frontmatter.title || slug,
+        title: frontmatter.title,
         description: frontmatter.description,
         type: 'article',
         url: `https://sacred-madness.vercel.app/wiki/${slug}`,
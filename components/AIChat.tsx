@@ -1,64 +1,205 @@
 'use client'
 
-import { useState } from 'react'
-import { MessageCircle, X, Send, Sparkles, BookOpen } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { usePathname } from 'next/navigation'
+import { MessageCircle, X, Send, Sparkles, BookOpen, Square, Quote, History, Plus, FileText, FileJson } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-
-interface Message {
-  role: 'user' | 'assistant'
-  content: string
-}
+import { OPEN_CHAT_EVENT, streamChat, type OpenChatRequest } from '@/lib/chat-client'
+import {
+  conversationTurns,
+  createSession,
+  deleteSession,
+  exportSessionJson,
+  exportSessionMarkdown,
+  listSessions,
+  saveSession,
+  sessionFileName,
+  sessionTitle,
+  type ChatSession,
+  type SessionMessage as Message
+} from '@/lib/chat-sessions'
+import type { WebSource } from '@/lib/citations'
+import { getWikiSlugFromHref } from '@/lib/mdx-components'
+import type { TextSelection } from '@/lib/prompt-cache'
+import { ChatMarkdown } from '@/components/ChatMarkdown'
+import { ChatSessionList, type SessionScope } from '@/components/ChatSessionList'
+import { SourceCards } from '@/components/SourceCards'
 
 interface AIChatProps {
-  slug?: string
+  slug?: string   // page the chat is about; defaults to the wiki page shown, if any
 }
 
-export function AIChat({ slug }: AIChatProps) {
+// Tavily searches with a query of a few hundred characters at most
+const SOURCES_QUERY_LENGTH = 300
+
+/**
+ * Floating chat panel, mounted once in the root layout so a conversation
+ * carries across pages; off wiki pages its sessions belong to no page
+ */
+export function AIChat({ slug: slugProp }: AIChatProps) {
+  const pathname = usePathname()
+  const slug = slugProp ?? (pathname ? getWikiSlugFromHref(pathname) : null) ?? undefined
   const [isOpen, setIsOpen] = useState(false)
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
+  const [streaming, setStreaming] = useState(false)
+  const [selection, setSelection] = useState<TextSelection | null>(null)
+  const [session, setSession] = useState<ChatSession | null>(null)
+  const [sessions, setSessions] = useState<ChatSession[]>([])
+  const [showSessions, setShowSessions] = useState(false)
+  const [sessionScope, setSessionScope] = useState<SessionScope>('page')
+  const [notice, setNotice] = useState<string | null>(null)   // last error; shown, never saved
+  const abortRef = useRef<AbortController | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const startedRef = useRef(false)   // the reader has asked or opened something
+  const unsavedRef = useRef(false)   // messages changed since the session was saved
+
+  // Stop a streaming answer when the chat goes away
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  // After navigating or reloading, pick up this page's (or, off wiki pages,
+  // the latest page-less) conversation, or start a new one for the page
+  useEffect(() => {
+    let cancelled = false
+    startedRef.current = false
+    listSessions(slug).then(found => {
+      if (cancelled || startedRef.current) return
+      const latest = found.find(item => item.slug === (slug ?? null)) ?? null
+      abortRef.current?.abort()
+      abortRef.current = null
+      unsavedRef.current = false
+      setSession(latest)
+      // An empty conversation stays as it is, without a re-render
+      setMessages(prev => latest ? latest.messages : prev.length > 0 ? [] : prev)
+      setNotice(null)
+      setLoading(false)
+      setStreaming(false)
+    })
+    return () => { cancelled = true }
+  }, [slug])
+
+  // Save the conversation once an answer is complete
+  useEffect(() => {
+    if (loading || !unsavedRef.current) return
+    unsavedRef.current = false
+
+    const kept = messages.filter(message => message.content)
+    if (kept.length === 0) return
+
+    const saved: ChatSession = {
+      ...(session ?? createSession(slug)),
+      title: sessionTitle(kept),
+      updatedAt: new Date().toISOString(),
+      messages: kept
+    }
+    setSession(saved)
+    saveSession(saved)
+  }, [messages, loading, session, slug])
+
+  // Refresh the list of saved conversations while it is shown
+  useEffect(() => {
+    if (!showSessions) return
+    let cancelled = false
+    listSessions(sessionScope === 'page' ? slug : undefined).then(found => {
+      if (!cancelled) setSessions(found)
+    })
+    return () => { cancelled = true }
+  }, [showSessions, sessionScope, slug])
+
+  // Requests about text selected on the page (SelectionPopover)
+  useEffect(() => {
+    const onOpenChat = (event: Event) => {
+      const { action, selection } = (event as CustomEvent<OpenChatRequest>).detail
+      setIsOpen(true)
 
-  const sendMessage = async () => {
-    if (!input.trim()) return
+      if (action === 'explain') {
+        sendMessage('Explain this passage', selection)
+      } else if (action === 'sources') {
+        const topic = [selection.heading, selection.text].filter(Boolean).join(': ')
+        findCitations(topic.slice(0, SOURCES_QUERY_LENGTH))
+      } else {
+        setSelection(selection)
+        setTimeout(() => inputRef.current?.focus())
+      }
+    }
+
+    window.addEventListener(OPEN_CHAT_EVENT, onOpenChat)
+    return () => window.removeEventListener(OPEN_CHAT_EVENT, onOpenChat)
+  })
+
+  // Replace the answer being streamed (the last message)
+  const updateAnswer = (update: (content: string) => string) => {
+    setMessages(prev => [...prev.slice(0, -1), { role: 'assistant', content: update(prev[prev.length - 1].content) }])
+  }
 
-    const userMessage: Message = { role: 'user', content: input }
-    setMessages(prev => [...prev, userMessage])
-    setInput('')
+  const sendMessage = async (question = input, attached = selection) => {
+    if (!question.trim() || loading) return
+
+    const userMessage: Message = { role: 'user', content: question, selection: attached ?? undefined }
+    startedRef.current = true
+    unsavedRef.current = true
+    setShowSessions(false)
+    setNotice(null)
+    setMessages(prev => [...prev, userMessage, { role: 'assistant', content: '' }])
+    if (question === input) setInput('')
+    setSelection(null)
     setLoading(true)
+    setStreaming(true)
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    // Once the reader switches conversations, this answer no longer belongs here
+    const isCurrent = () => abortRef.current === controller
 
     try {
-      const response = await fetch('/api/ai/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: input,
+      const { model, sources, unsupported } = await streamChat(
+        {
+          message: question,
           slug,
-          context: messages
-        })
-      })
-
-      const data = await response.json()
+          context: conversationTurns(messages),
+          selectedText: attached?.text,
+          selectedHeading: attached?.heading
+        },
+        text => {
+          if (isCurrent()) updateAnswer(content => content + text)
+        },
+        controller.signal
+      )
+      if (isCurrent()) {
+        setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], model, sources, unsupported }])
+      }
+    } catch (error) {
+      if (!isCurrent()) return
 
-      if (data.message) {
-        setMessages(prev => [...prev, { role: 'assistant', content: data.message }])
-      } else {
-        setMessages(prev => [...prev, {
-          role: 'assistant',
-          content: 'Sorry, I encountered an error. Please make sure API keys are configured.'
-        }])
+      // Stopped or failed: keep what arrived, drop an empty answer
+      setMessages(prev => {
+        const last = prev[prev.length - 1]
+        return last?.role === 'assistant' && !last.content ? prev.slice(0, -1) : prev
+      })
+      if (!controller.signal.aborted) {
+        setNotice(error instanceof TypeError
+          ? 'Failed to connect to AI service'
+          : 'Sorry, I encountered an error. Please make sure API keys are configured.')
       }
-    } catch {
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: 'Failed to connect to AI service'
-      }])
     } finally {
-      setLoading(false)
+      if (isCurrent()) {
+        abortRef.current = null
+        setLoading(false)
+        setStreaming(false)
+      }
     }
   }
 
+  const stopMessage = () => {
+    abortRef.current?.abort()
+  }
+
   const findCitations = async (topic: string) => {
+    startedRef.current = true
+    unsavedRef.current = true
+    setShowSessions(false)
+    setNotice(null)
     setLoading(true)
     try {
       const response = await fetch('/api/ai/citations', {
@@ -70,26 +211,56 @@ export function AIChat({ slug }: AIChatProps) {
       const data = await response.json()
 
       if (data.sources) {
-        const citationsMessage = `Found ${data.sources.length} academic sources:\n\n` +
-          data.sources.map((s: { title: string; url: string; snippet: string }, i: number) =>
-            `${i + 1}. **${s.title}**\n   ${s.url}\n   ${s.snippet.substring(0, 150)}...`
-          ).join('\n\n')
-
+        const sources: WebSource[] = data.sources
         setMessages(prev => [...prev, {
           role: 'assistant',
-          content: citationsMessage
+          content: `Found ${sources.length} academic sources:`,
+          webSources: sources
         }])
       }
     } catch {
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: 'Failed to find citations'
-      }])
+      setNotice('Failed to find citations')
     } finally {
       setLoading(false)
     }
   }
 
+  // Switch conversations, leaving an answer still streaming behind
+  const switchSession = (next: ChatSession | null) => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    startedRef.current = true
+    setSession(next)
+    setMessages(next?.messages ?? [])
+    setSelection(null)
+    setNotice(null)
+    setShowSessions(false)
+    setLoading(false)
+    setStreaming(false)
+  }
+
+  const newSession = () => switchSession(null)
+
+  const openSession = (opened: ChatSession) => switchSession(opened)
+
+  const removeSession = async (removed: ChatSession) => {
+    await deleteSession(removed.id)
+    setSessions(prev => prev.filter(item => item.id !== removed.id))
+    if (removed.id === session?.id) newSession()
+  }
+
+  const exportSession = (format: 'md' | 'json') => {
+    if (!session) return
+    const content = format === 'md' ? exportSessionMarkdown(session, window.location.origin) : exportSessionJson(session)
+    const url = URL.createObjectURL(new Blob([content], { type: format === 'md' ? 'text/markdown' : 'application/json' }))
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = sessionFileName(session, format)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
   if (!isOpen) {
     return (
       <button
@@ -110,12 +281,35 @@ export function AIChat({ slug }: AIChatProps) {
           <Sparkles className="h-5 w-5" />
           <h3 className="font-semibold">AI Research Assistant</h3>
         </div>
-        <button
-          onClick={() => setIsOpen(false)}
-          className="hover:bg-primary/80 rounded p-1"
-        >
-          <X className="h-5 w-5" />
-        </button>
+        <div className="flex items-center gap-1">
+          {session && !loading && (
+            <>
+              <button onClick={() => exportSession('md')} className="hover:bg-primary/80 rounded p-1" aria-label="Export as Markdown">
+                <FileText className="h-4 w-4" />
+              </button>
+              <button onClick={() => exportSession('json')} className="hover:bg-primary/80 rounded p-1" aria-label="Export as JSON">
+                <FileJson className="h-4 w-4" />
+              </button>
+            </>
+          )}
+          <button onClick={newSession} className="hover:bg-primary/80 rounded p-1" aria-label="New conversation">
+            <Plus className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setShowSessions(shown => !shown)}
+            className={`hover:bg-primary/80 rounded p-1 ${showSessions ? 'bg-primary/80' : ''}`}
+            aria-label="Saved conversations"
+            aria-pressed={showSessions}
+          >
+            <History className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setIsOpen(false)}
+            className="hover:bg-primary/80 rounded p-1"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
       </div>
 
       {/* Quick Actions */}
@@ -152,61 +346,121 @@ export function AIChat({ slug }: AIChatProps) {
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && (
-          <div className="text-center text-muted-foreground text-sm mt-8">
-            <Sparkles className="h-12 w-12 mx-auto mb-3 opacity-50" />
-            <p>Ask me anything about this research!</p>
-            <p className="text-xs mt-2">I can explain concepts, find connections, or suggest academic sources.</p>
-          </div>
-        )}
-        {messages.map((msg, i) => (
-          <div
-            key={i}
-            className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-          >
-            <div
-              className={`max-w-[80%] rounded-lg p-3 ${
-                msg.role === 'user'
-                  ? 'bg-primary text-primary-foreground'
-                  : 'bg-muted'
-              }`}
-            >
-              <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
-            </div>
-          </div>
-        ))}
-        {loading && (
-          <div className="flex justify-start">
-            <div className="bg-muted rounded-lg p-3">
-              <div className="flex gap-1">
-                <div className="h-2 w-2 bg-muted-foreground rounded-full animate-bounce" />
-                <div className="h-2 w-2 bg-muted-foreground rounded-full animate-bounce delay-100" />
-                <div className="h-2 w-2 bg-muted-foreground rounded-full animate-bounce delay-200" />
+        {showSessions ? (
+          <ChatSessionList
+            sessions={sessions}
+            currentId={session?.id}
+            scope={slug ? sessionScope : 'all'}
+            onScopeChange={slug ? setSessionScope : undefined}
+            onOpen={openSession}
+            onDelete={removeSession}
+          />
+        ) : (
+          <>
+            {messages.length === 0 && (
+              <div className="text-center text-muted-foreground text-sm mt-8">
+                <Sparkles className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                <p>Ask me anything about this research!</p>
+                <p className="text-xs mt-2">I can explain concepts, find connections, or suggest academic sources.</p>
               </div>
-            </div>
-          </div>
+            )}
+            {messages.filter(msg => msg.content).map((msg, i) => (
+              <div
+                key={i}
+                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+              >
+                <div
+                  className={`max-w-[80%] rounded-lg p-3 ${
+                    msg.role === 'user'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted'
+                  }`}
+                >
+                  {msg.selection && (
+                    <blockquote className="mb-2 border-l-2 border-primary-foreground/50 pl-2 text-xs italic opacity-90 line-clamp-3">
+                      {msg.selection.text}
+                    </blockquote>
+                  )}
+                  {msg.role === 'assistant'
+                    ? <ChatMarkdown content={msg.content} sources={msg.sources} unsupported={msg.unsupported} />
+                    : <p className="text-sm whitespace-pre-wrap">{msg.content}</p>}
+                  {msg.webSources && msg.webSources.length > 0 && (
+                    <div className="mt-2">
+                      <SourceCards sources={msg.webSources} />
+                    </div>
+                  )}
+                  {msg.unsupported && msg.unsupported.length > 0 && (
+                    <p className="text-xs text-destructive mt-2">
+                      Some claims cite sources this answer was not based on. Check them against the book.
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {notice && (
+              <div className="flex justify-start">
+                <p role="alert" className="max-w-[80%] rounded-lg p-3 bg-muted text-sm text-destructive">{notice}</p>
+              </div>
+            )}
+            {loading && !(streaming && messages[messages.length - 1]?.content) && (
+              <div className="flex justify-start">
+                <div className="bg-muted rounded-lg p-3">
+                  <div className="flex gap-1">
+                    <div className="h-2 w-2 bg-muted-foreground rounded-full animate-bounce" />
+                    <div className="h-2 w-2 bg-muted-foreground rounded-full animate-bounce delay-100" />
+                    <div className="h-2 w-2 bg-muted-foreground rounded-full animate-bounce delay-200" />
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
         )}
       </div>
 
       {/* Input */}
       <div className="p-4 border-t">
+        {selection && (
+          <div className="mb-2 flex items-start gap-2 rounded-md bg-muted p-2 text-xs">
+            <Quote className="h-3 w-3 mt-0.5 shrink-0 text-muted-foreground" />
+            <div className="flex-1 min-w-0">
+              {selection.heading && <p className="font-medium">{selection.heading}</p>}
+              <p className="text-muted-foreground line-clamp-2">{selection.text}</p>
+            </div>
+            <button onClick={() => setSelection(null)} aria-label="Remove selected text">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
         <div className="flex gap-2">
           <input
+            ref={inputRef}
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
-            placeholder="Ask a question..."
+            placeholder={selection ? 'Ask about the selected text...' : 'Ask a question...'}
             className="flex-1 px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
             disabled={loading}
           />
-          <Button
-            onClick={sendMessage}
-            disabled={loading || !input.trim()}
-            size="sm"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {streaming ? (
+            <Button
+              onClick={stopMessage}
+              variant="outline"
+              size="sm"
+              aria-label="Stop answer"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={() => sendMessage()}
+              disabled={loading || !input.trim()}
+              size="sm"
+              aria-label="Send"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
         <p className="text-xs text-muted-foreground mt-2">
           Powered by Claude Sonnet 4.5 + Tavily
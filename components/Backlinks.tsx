@@ -1,13 +1,98 @@
 import Link from 'next/link'
-import { WikiPage } from '@/lib/graph-builder'
+import type { BacklinkDetail, LinkType } from '@/lib/graph-builder'
 import { ArrowLeft } from 'lucide-react'
 
 interface BacklinksProps {
-  pages: WikiPage[]
+  links: BacklinkDetail[]
 }
 
-export function Backlinks({ pages }: BacklinksProps) {
-  if (pages.length === 0) return null
+const MAX_MENTIONS = 3
+
+const FRONTMATTER_LABELS: Partial<Record<LinkType, string>> = {
+  related: 'Listed as related',
+  seeAlso: 'Listed under See Also'
+}
+
+function BacklinkContext({ link }: { link: BacklinkDetail }) {
+  const { page, types, count, sections } = link
+
+  // Inline mentions: "Mentioned in section X of Y"
+  if (sections.length > 0) {
+    return (
+      <p className="text-sm text-muted-foreground ml-5 mt-1">
+        Mentioned in {sections.length === 1 ? 'section' : 'sections'}{' '}
+        {sections.map((section, i) => (
+          <span key={section.id}>
+            {i > 0 && ', '}
+            <Link href={`/wiki/${page.slug}#${section.id}`} className="italic hover:underline">
+              {section.title}
+            </Link>
+          </span>
+        ))}{' '}
+        of {page.title}
+        {count > 1 && ` (${count} mentions)`}
+      </p>
+    )
+  }
+
+  if (types.includes('inline')) {
+    return (
+      <p className="text-sm text-muted-foreground ml-5 mt-1">
+        Mentioned {count > 1 ? `${count} times` : 'once'} in {page.title}
+      </p>
+    )
+  }
+
+  const label = types.map(type => FRONTMATTER_LABELS[type]).find(Boolean)
+  return label ? (
+    <p className="text-sm text-muted-foreground ml-5 mt-1">
+      {label} in {page.title}
+    </p>
+  ) : null
+}
+
+/**
+ * The sentences that link here, with the anchor text highlighted
+ */
+function BacklinkMentions({ link }: { link: BacklinkDetail }) {
+  const { page, mentions } = link
+  if (mentions.length === 0) return null
+
+  const shown = mentions.slice(0, MAX_MENTIONS)
+
+  return (
+    <ul className="ml-5 mt-2 grid gap-2">
+      {shown.map((mention) => (
+        <li
+          key={`${mention.line}:${mention.column}`}
+          className="border-l-2 border-muted pl-3 text-sm text-muted-foreground"
+        >
+          <p>
+            {mention.context.before}
+            <mark className="bg-yellow-100 dark:bg-yellow-900/50 text-foreground rounded px-0.5">
+              {mention.context.anchor}
+            </mark>
+            {mention.context.after}
+          </p>
+          <Link
+            href={`/wiki/${page.slug}${mention.section ? `#${mention.section.id}` : ''}`}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {mention.section ? `§ ${mention.section.title}` : `Go to ${page.title}`}
+          </Link>
+        </li>
+      ))}
+      {mentions.length > shown.length && (
+        <li className="text-xs text-muted-foreground">
+          And {mentions.length - shown.length} more {mentions.length - shown.length === 1 ? 'mention' : 'mentions'}...
+        </li>
+      )}
+    </ul>
+  )
+}
+
+export function Backlinks({ links }: BacklinksProps) {
+  if (links.length === 0) return null
 
   return (
     <div className="mt-12 pt-6 border-t">
@@ -16,21 +101,23 @@ export function Backlinks({ pages }: BacklinksProps) {
         <h2 className="text-xl font-semibold">What Links Here</h2>
       </div>
       <p className="text-sm text-muted-foreground mb-3">
-        The following {pages.length} {pages.length === 1 ? 'page references' : 'pages reference'} this article:
+        The following {links.length} {links.length === 1 ? 'page references' : 'pages reference'} this article:
       </p>
       <ul className="grid gap-2">
-        {pages.map((page) => (
-          <li key={page.slug}>
+        {links.map((link) => (
+          <li key={link.page.slug}>
             <Link
-              href={`/wiki/${page.slug}`}
+              href={`/wiki/${link.page.slug}`}
               className="text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-2"
             >
               <span>→</span>
-              <span>{page.title}</span>
+              <span>{link.page.title}</span>
             </Link>
-            {page.description && (
+            <BacklinkContext link={link} />
+            <BacklinkMentions link={link} />
+            {link.page.description && (
               <p className="text-sm text-muted-foreground ml-5 mt-1">
-                {page.description}
+                {link.page.description}
               </p>
             )}
           </li>
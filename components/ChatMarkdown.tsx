@@ -0,0 +1,66 @@
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { MdxLink } from '@/lib/mdx-components'
+import { remarkCitations, type CitedSource, type UnsupportedCitation } from '@/lib/citations'
+
+interface ChatMarkdownProps {
+  content: string
+  sources?: CitedSource[]
+  unsupported?: UnsupportedCitation[]
+}
+
+/**
+ * A chat answer rendered as markdown, with its [slug#heading] markers as
+ * chips linking to the cited sections
+ * Raw HTML is dropped and unsafe link protocols removed; links go through
+ * the wiki's MdxLink. Citations of sources the answer was not given are
+ * flagged, not linked. Only markers of the answer's sources and flagged
+ * citations become chips, so they appear once the answer is complete.
+ */
+export function ChatMarkdown({ content, sources = [], unsupported = [] }: ChatMarkdownProps) {
+  const sourcesByKey = new Map(sources.map(source => [source.key, source]))
+  const unsupportedKeys = new Set(unsupported.map(citation => citation.key))
+  const slugs = new Set([
+    ...sources.map(source => source.slug),
+    ...unsupported.map(citation => citation.key.split('#')[0])
+  ])
+
+  const components: Components = {
+    a: ({ href, children, node, ...props }) => {
+      const key = node?.properties?.dataCitation
+      if (typeof key !== 'string') {
+        return <MdxLink href={href} {...props}>{children}</MdxLink>
+      }
+
+      if (unsupportedKeys.has(key)) {
+        return (
+          <span
+            title="Not one of the passages this answer was based on"
+            className="not-prose inline-block rounded px-1.5 text-xs bg-destructive/10 text-destructive line-through"
+          >
+            {key}
+          </span>
+        )
+      }
+
+      const source = sourcesByKey.get(key)
+      return (
+        <MdxLink
+          href={href}
+          title={source ? [source.title, source.heading].filter(Boolean).join(' › ') : undefined}
+          className="not-prose inline-block rounded px-1.5 text-xs bg-primary/10 text-primary hover:bg-primary/20 no-underline"
+        >
+          {source?.heading || source?.title || key}
+        </MdxLink>
+      )
+    }
+  }
+
+  return (
+    <div className="prose prose-sm dark:prose-invert max-w-none break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm, [remarkCitations, { slugs }]]} components={components} skipHtml>
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { Trash2 } from 'lucide-react'
+import type { ChatSession } from '@/lib/chat-sessions'
+
+export type SessionScope = 'page' | 'all'
+
+interface ChatSessionListProps {
+  sessions: ChatSession[]
+  currentId?: string
+  scope: SessionScope
+  onScopeChange?: (scope: SessionScope) => void  // omitted off wiki pages, where there is only "all"
+  onOpen: (session: ChatSession) => void
+  onDelete: (session: ChatSession) => void
+}
+
+/**
+ * Saved conversations of the chat panel, for this page or all pages
+ */
+export function ChatSessionList({ sessions, currentId, scope, onScopeChange, onOpen, onDelete }: ChatSessionListProps) {
+  return (
+    <div className="space-y-3">
+      {onScopeChange && (
+        <div className="flex gap-1 text-xs" role="tablist">
+          {([['page', 'This page'], ['all', 'All pages']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={scope === value}
+              onClick={() => onScopeChange(value)}
+              className={`rounded px-2 py-1 ${scope === value ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {sessions.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground mt-8">No saved conversations yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {sessions.map(session => (
+            <li key={session.id} className={`flex items-start gap-2 rounded-md p-2 hover:bg-muted ${session.id === currentId ? 'bg-muted' : ''}`}>
+              <button onClick={() => onOpen(session)} className="flex-1 min-w-0 text-left">
+                <p className="text-sm truncate">{session.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {session.slug || 'No page'} · {new Date(session.updatedAt).toLocaleDateString()}
+                </p>
+              </button>
+              <button
+                onClick={() => onDelete(session)}
+                className="p-1 text-muted-foreground hover:text-destructive"
+                aria-label={`Delete conversation "${session.title}"`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
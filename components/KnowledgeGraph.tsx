@@ -0,0 +1,239 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { GraphData } from '@/lib/graph-builder'
+import { computeForceLayout, getCategoryColors, UNCATEGORIZED_COLOR } from '@/lib/graph-layout'
+
+interface KnowledgeGraphProps {
+  data: GraphData
+  focusSlug?: string      // highlighted page (local graph mode)
+  height?: number
+  showFilters?: boolean
+}
+
+const WIDTH = 800
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+export function KnowledgeGraph({ data, focusSlug, height = 500, showFilters = false }: KnowledgeGraphProps) {
+  const router = useRouter()
+  const [hovered, setHovered] = useState<string | null>(null)
+  const [category, setCategory] = useState('')
+  const [keyword, setKeyword] = useState('')
+
+  const categoryColors = useMemo(
+    () => getCategoryColors(data.nodes.map(n => n.category).filter((c): c is string => !!c)),
+    [data.nodes]
+  )
+
+  // Apply category/keyword filters (the focused page always stays visible)
+  const visible = useMemo(() => {
+    const needle = keyword.trim().toLowerCase()
+
+    const nodes = data.nodes.filter(node => {
+      if (node.slug === focusSlug) return true
+      if (category && node.category !== category) return false
+      if (needle) {
+        const haystack = [node.title, ...(node.keywords || [])].join(' ').toLowerCase()
+        if (!haystack.includes(needle)) return false
+      }
+      return true
+    })
+
+    const slugs = new Set(nodes.map(n => n.slug))
+    const edges = data.edges.filter(e => slugs.has(e.from) && slugs.has(e.to))
+
+    return { nodes, edges }
+  }, [data, category, keyword, focusSlug])
+
+  const positions = useMemo(
+    () => computeForceLayout(
+      visible.nodes.map(n => ({ id: n.slug })),
+      visible.edges,
+      { width: WIDTH, height }
+    ),
+    [visible, height]
+  )
+
+  const degree = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const edge of visible.edges) {
+      counts.set(edge.from, (counts.get(edge.from) || 0) + 1)
+      counts.set(edge.to, (counts.get(edge.to) || 0) + 1)
+    }
+    return counts
+  }, [visible.edges])
+
+  const hoveredNode = visible.nodes.find(n => n.slug === hovered)
+  const hoveredPosition = hovered ? positions.get(hovered) : undefined
+  const categories = [...categoryColors.keys()]
+
+  const isNeighborOfHovered = (slug: string) =>
+    !!hovered && visible.edges.some(e =>
+      (e.from === hovered && e.to === slug) || (e.to === hovered && e.from === slug)
+    )
+
+  return (
+    <div className="not-prose">
+      {showFilters && (
+        <div className="flex flex-wrap gap-3 mb-4">
+          <label className="text-sm flex items-center gap-2">
+            <span className="text-muted-foreground">Category</span>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="px-2 py-1 border rounded-md text-sm bg-background"
+            >
+              <option value="">All categories</option>
+              {categories.map(c => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm flex items-center gap-2">
+            <span className="text-muted-foreground">Keyword</span>
+            <input
+              type="text"
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              placeholder="Filter by title or keyword..."
+              className="px-2 py-1 border rounded-md text-sm bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </label>
+        </div>
+      )}
+
+      {/* Visual graph (mouse users); screen readers get the list below */}
+      <div className="relative border rounded-lg bg-muted/20 overflow-hidden">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${height}`}
+          className="w-full h-auto"
+          aria-hidden="true"
+        >
+          {visible.edges.map(edge => {
+            const from = positions.get(edge.from)
+            const to = positions.get(edge.to)
+            if (!from || !to) return null
+            const active = hovered === edge.from || hovered === edge.to
+            return (
+              <line
+                key={`${edge.from}->${edge.to}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                className={active ? 'stroke-primary' : 'stroke-muted-foreground/30'}
+                strokeWidth={active ? 2 : 1}
+              />
+            )
+          })}
+
+          {visible.nodes.map(node => {
+            const position = positions.get(node.slug)
+            if (!position) return null
+            const isFocus = node.slug === focusSlug
+            const dimmed = !!hovered && hovered !== node.slug && !isNeighborOfHovered(node.slug)
+            const radius = (isFocus ? 10 : 5) + Math.min(degree.get(node.slug) || 0, 8)
+            const color = node.category ? categoryColors.get(node.category) : UNCATEGORIZED_COLOR
+
+            return (
+              <g
+                key={node.slug}
+                data-slug={node.slug}
+                className="cursor-pointer"
+                opacity={dimmed ? 0.3 : 1}
+                onMouseEnter={() => setHovered(node.slug)}
+                onMouseLeave={() => setHovered(null)}
+                onClick={() => router.push(`/wiki/${node.slug}`)}
+              >
+                <circle
+                  cx={position.x}
+                  cy={position.y}
+                  r={radius}
+                  fill={color || UNCATEGORIZED_COLOR}
+                  className={isFocus ? 'stroke-foreground' : 'stroke-background'}
+                  strokeWidth={isFocus ? 3 : 1.5}
+                />
+                <text
+                  x={position.x}
+                  y={position.y + radius + 12}
+                  textAnchor="middle"
+                  className="fill-foreground text-[10px] select-none"
+                >
+                  {truncate(node.title, 28)}
+                </text>
+              </g>
+            )
+          })}
+        </svg>
+
+        {/* Hover preview */}
+        {hoveredNode && hoveredPosition && (
+          <div
+            className="absolute z-10 max-w-xs p-3 border rounded-lg bg-background shadow-lg pointer-events-none text-sm"
+            style={{
+              left: `${Math.min((hoveredPosition.x / WIDTH) * 100, 65)}%`,
+              top: `${Math.min((hoveredPosition.y / height) * 100, 70)}%`
+            }}
+          >
+            <div className="font-medium">{hoveredNode.title}</div>
+            {hoveredNode.category && (
+              <span className="inline-block mt-1 text-xs bg-muted px-2 py-0.5 rounded">
+                {hoveredNode.category}
+              </span>
+            )}
+            {hoveredNode.description && (
+              <p className="text-muted-foreground mt-1 line-clamp-3">{hoveredNode.description}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Category legend */}
+      {categories.length > 0 && (
+        <ul className="flex flex-wrap gap-3 mt-3 text-xs text-muted-foreground" aria-hidden="true">
+          {categories.map(c => (
+            <li key={c} className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: categoryColors.get(c) }} />
+              {c}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Accessible list view (visible when focused by keyboard) */}
+      <nav aria-label="Pages in this graph" className="sr-only focus-within:not-sr-only focus-within:mt-4">
+        <ul className="space-y-1 text-sm">
+          {visible.nodes.map(node => {
+            const linked = visible.edges
+              .filter(e => e.from === node.slug || e.to === node.slug)
+              .map(e => (e.from === node.slug ? e.to : e.from))
+            const linkedTitles = [...new Set(linked)]
+              .map(slug => visible.nodes.find(n => n.slug === slug)?.title)
+              .filter(Boolean)
+
+            return (
+              <li key={node.slug}>
+                <Link href={`/wiki/${node.slug}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {node.title}
+                </Link>
+                {node.category && <span> ({node.category})</span>}
+                {linkedTitles.length > 0 && (
+                  <span>: connected to {linkedTitles.join(', ')}</span>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </nav>
+
+      {visible.nodes.length === 0 && (
+        <p className="text-sm text-muted-foreground mt-3">No pages match these filters.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import Link from 'next/link'
+import { Network } from 'lucide-react'
+import type { GraphData } from '@/lib/graph-builder'
+import { KnowledgeGraph } from '@/components/KnowledgeGraph'
+
+interface LocalGraphProps {
+  data: GraphData
+  slug: string
+  hops: number
+}
+
+export function LocalGraph({ data, slug, hops }: LocalGraphProps) {
+  if (data.nodes.length === 0) return null
+
+  return (
+    <div className="mt-12 pt-6 border-t">
+      <div className="flex items-center gap-2 mb-4">
+        <Network className="h-5 w-5 text-muted-foreground" />
+        <h2 className="text-xl font-semibold">Local Graph</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        Pages within {hops} {hops === 1 ? 'link' : 'links'} of this article.{' '}
+        <Link href="/graph" className="text-blue-600 dark:text-blue-400 hover:underline">
+          Explore the full graph →
+        </Link>
+      </p>
+      <KnowledgeGraph data={data} focusSlug={slug} height={320} />
+    </div>
+  )
+}
@@ -0,0 +1,280 @@
+'use client'
+
+import React, { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Clock, FileText, Hash, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog'
+import { SearchSnippetText, searchResultHref } from '@/components/SearchSnippet'
+import { useDebouncedValue } from '@/hooks/use-debounced-value'
+import {
+  addRecentSearch,
+  fetchSearchResults,
+  getRecentSearches,
+  MIN_QUERY_LENGTH,
+  searchPageHref,
+  sendSearchClick,
+  type SearchApiResponse
+} from '@/lib/search-client'
+
+const DEBOUNCE_MS = 200
+const MAX_PAGE_RESULTS = 8
+const MAX_HEADING_RESULTS = 6
+
+type PaletteGroup = 'Recent searches' | 'Pages' | 'Headings'
+
+interface PaletteItem {
+  key: string
+  group?: PaletteGroup
+  label: string
+  detail?: React.ReactNode
+  href?: string           // page to open
+  query?: string          // recent search to run again
+  result?: { slug: string; position: number }  // search result, for click reports
+}
+
+/**
+ * Options for the current query: pages, then headings within them, then a
+ * link to the full results page. Recent searches while the query is empty.
+ */
+function buildItems(query: string, response: SearchApiResponse | null, recent: string[]): PaletteItem[] {
+  if (query.trim().length < MIN_QUERY_LENGTH) {
+    return recent.map(item => ({ key: `recent:${item}`, group: 'Recent searches', label: item, query: item }))
+  }
+  if (!response) return []
+
+  const pages: PaletteItem[] = response.results.map((result, index) => ({
+    key: `page:${result.slug}`,
+    group: 'Pages',
+    label: result.title,
+    detail: result.snippets[0] ? <SearchSnippetText snippet={result.snippets[0]} /> : result.description,
+    href: searchResultHref(result.slug),
+    result: { slug: result.slug, position: index + 1 }
+  }))
+
+  const headings: PaletteItem[] = []
+  const seen = new Set<string>()
+  response.results.forEach((result, index) => {
+    for (const snippet of result.snippets) {
+      const href = searchResultHref(result.slug, snippet)
+      if (!snippet.section || seen.has(href)) continue
+      seen.add(href)
+      headings.push({
+        key: `heading:${href}`,
+        group: 'Headings',
+        label: snippet.section.title,
+        detail: result.title,
+        href,
+        result: { slug: result.slug, position: index + 1 }
+      })
+    }
+  })
+
+  return [
+    ...pages,
+    ...headings.slice(0, MAX_HEADING_RESULTS),
+    {
+      key: 'all',
+      label: response.total > 0 ? `See all ${response.total} results for "${query.trim()}"` : `Search for "${query.trim()}"`,
+      href: searchPageHref(query.trim())
+    }
+  ]
+}
+
+const GROUP_ICONS: Record<PaletteGroup, React.ComponentType<{ className?: string }>> = {
+  'Recent searches': Clock,
+  Pages: FileText,
+  Headings: Hash
+}
+
+export function SearchPalette() {
+  const router = useRouter()
+  const listId = useId()
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [response, setResponse] = useState<SearchApiResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [recent, setRecent] = useState<string[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [shortcut, setShortcut] = useState('Ctrl K')
+
+  const debouncedQuery = useDebouncedValue(query.trim(), DEBOUNCE_MS)
+  // Each query typed while the palette is open edits the previous one
+  const lastSearchId = useRef<string | null>(null)
+
+  // Cmd-K on macOS, Ctrl-K elsewhere
+  useEffect(() => {
+    if (/Mac|iPhone|iPad/.test(navigator.platform)) setShortcut('⌘K')
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        setOpen(isOpen => !isOpen)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  useEffect(() => {
+    if (open) setRecent(getRecentSearches())
+    lastSearchId.current = null
+  }, [open])
+
+  useEffect(() => {
+    if (debouncedQuery.length < MIN_QUERY_LENGTH) {
+      setResponse(null)
+      setError(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setLoading(true)
+    fetchSearchResults({ query: debouncedQuery, pageSize: MAX_PAGE_RESULTS, refines: lastSearchId.current }, controller.signal)
+      .then(data => {
+        lastSearchId.current = data.searchId
+        setResponse(data)
+        setError(null)
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        setResponse(null)
+        setError(err instanceof Error ? err.message : 'Search failed')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [debouncedQuery])
+
+  const items = useMemo(() => buildItems(query, response, recent), [query, response, recent])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [items])
+
+  const select = useCallback((item: PaletteItem) => {
+    if (item.query) {
+      setQuery(item.query)
+      return
+    }
+    if (!item.href) return
+
+    if (item.result && response) {
+      sendSearchClick(response.searchId, item.result.slug, item.result.position)
+    }
+    setRecent(addRecentSearch(query))
+    setOpen(false)
+    setQuery('')
+    router.push(item.href)
+  }, [query, response, router])
+
+  const onInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) return
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setActiveIndex(index => (index + 1) % items.length)
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex(index => (index - 1 + items.length) % items.length)
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      select(items[activeIndex])
+    }
+  }
+
+  const optionId = (index: number) => `${listId}-option-${index}`
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="mr-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+        aria-label="Search the wiki"
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden sm:inline">Search...</span>
+        <kbd className="hidden sm:inline rounded border bg-muted px-1.5 text-xs font-mono">{shortcut}</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="top-[15%] translate-y-0 gap-0 p-0 sm:max-w-xl" showCloseButton={false}>
+          <DialogTitle className="sr-only">Search the wiki</DialogTitle>
+          <DialogDescription className="sr-only">
+            Type to search; use the arrow keys to choose a result and Enter to open it.
+          </DialogDescription>
+
+          <div className="flex items-center gap-2 border-b px-3">
+            <Search className="h-4 w-4 text-muted-foreground" />
+            <input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              onKeyDown={onInputKeyDown}
+              placeholder='Search pages... (try "holy fool" or yurodiv*)'
+              className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+              role="combobox"
+              aria-expanded={items.length > 0}
+              aria-controls={listId}
+              aria-activedescendant={items.length > 0 ? optionId(activeIndex) : undefined}
+              aria-autocomplete="list"
+              autoFocus
+            />
+            {loading && <span className="text-xs text-muted-foreground">Searching...</span>}
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto p-2">
+            {error && <p className="px-2 py-4 text-sm text-destructive">{error}</p>}
+
+            {!error && response?.corrections.length ? (
+              <p className="px-2 py-1 text-xs text-muted-foreground">
+                Showing results for {response.corrections.map(c => `"${c.to}"`).join(', ')}
+              </p>
+            ) : null}
+
+            {!error && query.trim().length >= MIN_QUERY_LENGTH && response && response.total === 0 && (
+              <p className="px-2 py-4 text-sm text-muted-foreground">No pages match &ldquo;{query.trim()}&rdquo;.</p>
+            )}
+
+            <ul id={listId} role="listbox" aria-label="Search results">
+              {items.map((item, index) => {
+                const Icon = item.group ? GROUP_ICONS[item.group] : Search
+                const startsGroup = item.group && item.group !== items[index - 1]?.group
+
+                return (
+                  <React.Fragment key={item.key}>
+                    {startsGroup && (
+                      <li role="presentation" className="px-2 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                        {item.group}
+                      </li>
+                    )}
+                    <li
+                      id={optionId(index)}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      onMouseMove={() => setActiveIndex(index)}
+                      onClick={() => select(item)}
+                      className={`flex cursor-pointer gap-3 rounded-md px-2 py-2 text-sm ${
+                        index === activeIndex ? 'bg-accent text-accent-foreground' : ''
+                      }`}
+                    >
+                      <Icon className="mt-0.5 h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <div className="font-medium">{item.label}</div>
+                        {item.detail && <div className="line-clamp-2 text-xs text-muted-foreground">{item.detail}</div>}
+                      </div>
+                    </li>
+                  </React.Fragment>
+                )
+              })}
+            </ul>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ChevronLeft, ChevronRight, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { SearchSnippetText, searchResultHref } from '@/components/SearchSnippet'
+import {
+  addRecentSearch,
+  COLLECTION_LABELS,
+  fetchSearchResults,
+  MIN_QUERY_LENGTH,
+  searchPageHref,
+  sendSearchClick,
+  type SearchApiResponse
+} from '@/lib/search-client'
+import type { Collection } from '@/lib/content'
+import type { SearchFacet, SearchSort } from '@/lib/search-index'
+import { parseSearchQuery } from '@/lib/search-query'
+
+interface SearchResultsProps {
+  query: string
+  page: number
+  sort: SearchSort
+}
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Relevance',
+  title: 'Title (A-Z)',
+  words: 'Length (longest first)'
+}
+
+type FacetField = 'collection' | 'category' | 'keyword'
+
+/**
+ * Query with a facet filter added, e.g. `geel category:"Mental Health & Care"`
+ * An OR query is grouped first, so the filter applies to all of it:
+ * `(geel OR dymphna) category:"Mental Health & Care"`.
+ */
+export function withFilter(query: string, field: FacetField, value: string): string {
+  const filter = `${field}:"${value}"`
+  return parseSearchQuery(query)?.type === 'or' ? `(${query}) ${filter}` : `${query} ${filter}`
+}
+
+function FacetList({ title, field, facets, query, label = value => value }: {
+  title: string
+  field: FacetField
+  facets: SearchFacet[]
+  query: string
+  label?: (value: string) => string
+}) {
+  if (facets.length === 0) return null
+
+  return (
+    <div>
+      <h2 className="mb-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">{title}</h2>
+      <ul className="space-y-1 text-sm">
+        {facets.map(facet => (
+          <li key={facet.value}>
+            <Link href={searchPageHref(withFilter(query, field, facet.value))} className="flex justify-between gap-2 hover:underline">
+              <span>{label(facet.value)}</span>
+              <span className="text-muted-foreground">{facet.count}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function SearchResults({ query, page, sort }: SearchResultsProps) {
+  const router = useRouter()
+  const [input, setInput] = useState(query)
+  const [response, setResponse] = useState<SearchApiResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setInput(query)
+    if (query.length < MIN_QUERY_LENGTH) {
+      setResponse(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+    fetchSearchResults({ query, page, sort }, controller.signal)
+      .then(setResponse)
+      .catch(err => {
+        if (controller.signal.aborted) return
+        setResponse(null)
+        setError(err instanceof Error ? err.message : 'Search failed')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [query, page, sort])
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const trimmed = input.trim()
+    if (trimmed.length < MIN_QUERY_LENGTH) return
+
+    addRecentSearch(trimmed)
+    router.push(searchPageHref(trimmed, { sort }))
+  }
+
+  return (
+    <div className="not-prose">
+      <form onSubmit={submit} className="mb-6 flex gap-2" role="search">
+        <Input
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          placeholder='Search the wiki, e.g. "holy fool" OR majdhub'
+          aria-label="Search query"
+        />
+        <Button type="submit">
+          <Search className="h-4 w-4" />
+          Search
+        </Button>
+      </form>
+
+      {query.length < MIN_QUERY_LENGTH && (
+        <div className="text-sm text-muted-foreground space-y-2">
+          <p>Enter at least {MIN_QUERY_LENGTH} characters to search the chapters and the research paper.</p>
+          <p>
+            Use <code>&quot;quotes&quot;</code> for phrases, <code>OR</code> and <code>NOT</code> to combine words,{' '}
+            <code>yurodiv*</code> for prefixes and <code>title:</code>, <code>keyword:</code>,{' '}
+            <code>category:</code> or <code>collection:</code> to filter.
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {response && (
+        <div className="flex flex-col gap-8 md:flex-row">
+          <aside className="space-y-6 md:w-56 md:flex-shrink-0">
+            <FacetList
+              title="Collections"
+              field="collection"
+              facets={response.facets.collections}
+              query={query}
+              label={value => COLLECTION_LABELS[value as Collection] ?? value}
+            />
+            <FacetList title="Categories" field="category" facets={response.facets.categories} query={query} />
+            <FacetList title="Keywords" field="keyword" facets={response.facets.keywords} query={query} />
+          </aside>
+
+          <div className="min-w-0 flex-1">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+              <p aria-live="polite">
+                {loading ? 'Searching...' : `${response.total} ${response.total === 1 ? 'result' : 'results'} for "${query}"`}
+                {response.corrections.length > 0 && (
+                  <> (showing results for {response.corrections.map(c => `"${c.to}"`).join(', ')})</>
+                )}
+              </p>
+              <label className="flex items-center gap-2">
+                Sort by
+                <select
+                  value={sort}
+                  onChange={(event) => router.push(searchPageHref(query, { sort: event.target.value as SearchSort }))}
+                  className="rounded-md border bg-background px-2 py-1"
+                >
+                  {(Object.keys(SORT_LABELS) as SearchSort[]).map(option => (
+                    <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <ol className="space-y-6">
+              {response.results.map((result, index) => (
+                <li key={result.slug} onClick={() => sendSearchClick(response.searchId, result.slug, index + 1)}>
+                  <Link href={searchResultHref(result.slug)} className="text-lg font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                    {result.title}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    {[result.collection === 'papers' && COLLECTION_LABELS.papers, result.category, `${result.wordCount.toLocaleString('en-US')} words`].filter(Boolean).join(' · ')}
+                  </p>
+                  {result.snippets.length > 0 ? (
+                    <ul className="mt-2 space-y-2">
+                      {result.snippets.map((snippet, index) => (
+                        <li key={index} className="border-l-2 border-muted pl-3 text-sm text-muted-foreground">
+                          <p><SearchSnippetText snippet={snippet} /></p>
+                          {snippet.section && (
+                            <Link href={searchResultHref(result.slug, snippet)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                              § {snippet.section.title}
+                            </Link>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : result.description && (
+                    <p className="mt-2 text-sm text-muted-foreground">{result.description}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+
+            {response.totalPages > 1 && (
+              <nav className="mt-8 flex items-center justify-between text-sm" aria-label="Search result pages">
+                {page > 1 ? (
+                  <Link href={searchPageHref(query, { page: page - 1, sort })} className="flex items-center gap-1 hover:underline">
+                    <ChevronLeft className="h-4 w-4" /> Previous
+                  </Link>
+                ) : <span />}
+                <span className="text-muted-foreground">Page {page} of {response.totalPages}</span>
+                {page < response.totalPages ? (
+                  <Link href={searchPageHref(query, { page: page + 1, sort })} className="flex items-center gap-1 hover:underline">
+                    Next <ChevronRight className="h-4 w-4" />
+                  </Link>
+                ) : <span />}
+              </nav>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
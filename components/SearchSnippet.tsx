@@ -0,0 +1,30 @@
+import type { SearchSnippet } from '@/lib/search-snippets'
+
+/**
+ * Snippet text with the matched words highlighted
+ */
+export function SearchSnippetText({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  snippet.highlights.forEach(([start, end]) => {
+    if (start < cursor) return
+    parts.push(snippet.text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="bg-yellow-100 dark:bg-yellow-900/50 text-foreground rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+  parts.push(snippet.text.slice(cursor))
+
+  return <>{parts}</>
+}
+
+/**
+ * Site path a result or one of its snippets links to
+ */
+export function searchResultHref(slug: string, snippet?: SearchSnippet): string {
+  return snippet?.section ? `/wiki/${slug}#${snippet.section.id}` : `/wiki/${slug}`
+}
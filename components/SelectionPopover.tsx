@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BookOpen, MessageCircle, Search } from 'lucide-react'
+import { openChat, type SelectionAction } from '@/lib/chat-client'
+import { MAX_SELECTION_LENGTH, type TextSelection } from '@/lib/prompt-cache'
+
+// Shorter selections are usually a stray click or a single word
+const MIN_SELECTION_LENGTH = 3
+
+const ACTIONS: Array<{ action: SelectionAction; label: string; icon: typeof BookOpen }> = [
+  { action: 'explain', label: 'Explain', icon: BookOpen },
+  { action: 'ask', label: 'Ask', icon: MessageCircle },
+  { action: 'sources', label: 'Find sources', icon: Search }
+]
+
+interface PopoverState {
+  selection: TextSelection
+  top: number
+  left: number
+}
+
+/**
+ * Heading of the section a node is in: the last h2/h3 of the article before it
+ */
+export function findSectionHeading(node: Node, article: Element): string | undefined {
+  let heading: string | undefined
+  for (const element of article.querySelectorAll('h2, h3')) {
+    if (!(element.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING)) break
+    heading = element.textContent?.trim() || heading
+  }
+  return heading
+}
+
+/**
+ * Popover over text selected in the page article, to explain it, ask about
+ * it or find sources for it in the chat panel (AIChat)
+ */
+export function SelectionPopover() {
+  const [popover, setPopover] = useState<PopoverState | null>(null)
+
+  useEffect(() => {
+    const update = () => {
+      const current = window.getSelection()
+      const text = current?.toString().replace(/\s+/g, ' ').trim() || ''
+      if (!current || current.rangeCount === 0 || text.length < MIN_SELECTION_LENGTH) {
+        setPopover(null)
+        return
+      }
+
+      const range = current.getRangeAt(0)
+      const container = range.commonAncestorContainer
+      const article = (container instanceof Element ? container : container.parentElement)?.closest('article')
+      if (!article) {
+        setPopover(null)
+        return
+      }
+
+      const rect = range.getBoundingClientRect()
+      setPopover({
+        selection: { text: text.slice(0, MAX_SELECTION_LENGTH), heading: findSectionHeading(range.startContainer, article) },
+        top: rect.top,
+        left: rect.left + rect.width / 2
+      })
+    }
+
+    // Clear as soon as the selection goes; show once the reader lets go
+    const clear = () => {
+      if (window.getSelection()?.isCollapsed) setPopover(null)
+    }
+
+    document.addEventListener('mouseup', update)
+    document.addEventListener('keyup', update)
+    document.addEventListener('selectionchange', clear)
+    window.addEventListener('scroll', clear, true)
+    return () => {
+      document.removeEventListener('mouseup', update)
+      document.removeEventListener('keyup', update)
+      document.removeEventListener('selectionchange', clear)
+      window.removeEventListener('scroll', clear, true)
+    }
+  }, [])
+
+  if (!popover) return null
+
+  const choose = (action: SelectionAction) => {
+    openChat({ action, selection: popover.selection })
+    window.getSelection()?.removeAllRanges()
+    setPopover(null)
+  }
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Selected text"
+      className="fixed z-50 flex -translate-x-1/2 -translate-y-full gap-1 rounded-md border bg-background p-1 shadow-lg"
+      style={{ top: popover.top - 8, left: popover.left }}
+      // Keep the selection while clicking an action
+      onMouseDown={event => event.preventDefault()}
+      onMouseUp={event => event.stopPropagation()}
+    >
+      {ACTIONS.map(({ action, label, icon: Icon }) => (
+        <button
+          key={action}
+          onClick={() => choose(action)}
+          className="flex items-center gap-1 rounded px-2 py-1 text-xs hover:bg-muted"
+        >
+          <Icon className="h-3 w-3" />
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, ExternalLink } from 'lucide-react'
+import { formatWebCitation, sourceDomain, type WebSource } from '@/lib/citations'
+
+const SNIPPET_LENGTH = 200
+
+/**
+ * Web sources as cards with title, site, snippet and a copy-citation action
+ */
+export function SourceCards({ sources }: { sources: WebSource[] }) {
+  return (
+    <ul className="space-y-2">
+      {sources.map(source => <SourceCard key={source.url} source={source} />)}
+    </ul>
+  )
+}
+
+function SourceCard({ source }: { source: WebSource }) {
+  const [copied, setCopied] = useState(false)
+
+  const copyCitation = async () => {
+    try {
+      await navigator.clipboard.writeText(formatWebCitation(source))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard unavailable (permissions, insecure context)
+    }
+  }
+
+  const snippet = source.snippet.length > SNIPPET_LENGTH
+    ? `${source.snippet.slice(0, SNIPPET_LENGTH).trimEnd()}…`
+    : source.snippet
+
+  return (
+    <li className="rounded-md border bg-background p-3 text-sm">
+      <a
+        href={source.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-medium text-blue-600 dark:text-blue-400 hover:underline inline-flex items-start gap-1"
+      >
+        {source.title}
+        <ExternalLink className="h-3 w-3 mt-1 shrink-0" />
+      </a>
+      <p className="text-xs text-muted-foreground">{sourceDomain(source.url)}</p>
+      {snippet && <p className="mt-1 text-xs">{snippet}</p>}
+      <button
+        onClick={copyCitation}
+        className="mt-2 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        aria-label={`Copy citation for ${source.title}`}
+      >
+        {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        {copied ? 'Copied' : 'Copy citation'}
+      </button>
+    </li>
+  )
+}
@@ -0,0 +1,49 @@
+import Link from 'next/link'
+import type { WikiPage } from '@/lib/graph-builder'
+import type { UnlinkedMention } from '@/lib/unlinked-mentions'
+import { Unlink } from 'lucide-react'
+
+interface UnlinkedMentionsProps {
+  mentions: Array<{ page: WikiPage; mention: UnlinkedMention }>
+}
+
+export function UnlinkedMentions({ mentions }: UnlinkedMentionsProps) {
+  if (mentions.length === 0) return null
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center gap-2 mb-3">
+        <Unlink className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-lg font-semibold">Unlinked Mentions</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        {mentions.length === 1 ? 'This page mentions' : 'These pages mention'} this article without linking to it:
+      </p>
+      <ul className="grid gap-3">
+        {mentions.map(({ page, mention }) => (
+          <li key={page.slug}>
+            <Link
+              href={`/wiki/${page.slug}${mention.section ? `#${mention.section.id}` : ''}`}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {page.title}
+              {mention.section && <span className="text-muted-foreground"> § {mention.section.title}</span>}
+            </Link>
+            <p className="border-l-2 border-dashed border-muted pl-3 mt-1 text-sm text-muted-foreground">
+              {mention.context.before}
+              <mark className="bg-yellow-100 dark:bg-yellow-900/50 text-foreground rounded px-0.5">
+                {mention.context.anchor}
+              </mark>
+              {mention.context.after}
+            </p>
+            {mention.count > 1 && (
+              <p className="text-xs text-muted-foreground mt-1 pl-3">
+                Mentioned {mention.count} times without a link
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
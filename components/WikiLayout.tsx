@@ -1,10 +1,11 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { Menu, ChevronLeft, ChevronRight, Home } from 'lucide-react'
+import { Menu, ChevronLeft, ChevronRight, Home, Network } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet'
 import { ThemeToggle } from '@/components/ThemeToggle'
+import { SearchPalette } from '@/components/SearchPalette'
 import Link from 'next/link'
 
 interface TocItem {
@@ -94,6 +95,17 @@ export default function WikiLayout({
 
           <div className="flex-1" />
 
+          {/* Search (Cmd/Ctrl-K) */}
+          <SearchPalette />
+
+          {/* Knowledge Graph */}
+          <Button variant="ghost" size="sm" className="mr-2" asChild>
+            <Link href="/graph">
+              <Network className="h-4 w-4" />
+              <span className="hidden sm:inline">Graph</span>
+            </Link>
+          </Button>
+
           {/* Theme Toggle */}
           <ThemeToggle />
         </div>
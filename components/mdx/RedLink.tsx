@@ -0,0 +1,32 @@
+import Link from 'next/link'
+import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip'
+
+interface RedLinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  href: string
+  slug: string
+}
+
+/**
+ * Wikipedia-style link to a page that does not exist (yet)
+ * Other anchor attributes (id, title, aria-*) are passed through to the link.
+ */
+export function RedLink({ href, slug, children, ...props }: RedLinkProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Link
+          href={href}
+          className="text-red-600 dark:text-red-400 hover:underline"
+          data-missing-page={slug}
+          aria-label={`${typeof children === 'string' ? children : slug} (page does not exist)`}
+          {...props}
+        >
+          {children}
+        </Link>
+      </TooltipTrigger>
+      <TooltipContent>
+        Page &ldquo;{slug}&rdquo; does not exist yet
+      </TooltipContent>
+    </Tooltip>
+  )
+}
@@ -2,3 +2,4 @@ export { ClinicalWarning } from './ClinicalWarning'
 export { Reflection } from './Reflection'
 export { Citation } from './Citation'
 export { Callout } from './Callout'
+export { RedLink } from './RedLink'
@@ -0,0 +1,10 @@
+/**
+ * Next.js instrumentation hook - runs once when a server instance starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Build the search index up front so the first search is not slow
+    const { getSearchIndex } = await import('./lib/search-index')
+    await getSearchIndex().catch(error => console.warn('Search index warm-up failed:', error))
+  }
+}
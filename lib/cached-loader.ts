@@ -0,0 +1,81 @@
+/**
+ * Cached Loader
+ *
+ * Per-process cache for values built from the content, such as the link
+ * graph and the search and passage indexes:
+ * - In production the value is built once, since content cannot change in
+ *   a deployment
+ * - In development each load re-reads the inputs and rebuilds only when
+ *   they changed, e.g. a page's content hash
+ * - Concurrent loads share one build
+ */
+
+import type { ContentPage } from './content'
+
+export interface CachedLoader<T> {
+  load: () => Promise<T>
+  clear: () => void         // drop the cached value (used by tests and content tooling)
+}
+
+interface CachedLoaderOptions<I, T> {
+  read: () => Promise<I>                        // inputs the value is built from
+  unchanged: (previous: I, current: I) => boolean
+  build: (inputs: I) => T
+  prebuilt?: () => Promise<T | null>            // value saved at build time, used in production
+}
+
+/**
+ * Create a loader that caches the value built from its inputs
+ */
+export function createCachedLoader<I, T>({ read, unchanged, build, prebuilt }: CachedLoaderOptions<I, T>): CachedLoader<T> {
+  let cached: { value: T; inputs: I | null } | null = null
+  let pending: Promise<T> | null = null
+
+  const refresh = async (): Promise<T> => {
+    if (prebuilt && process.env.NODE_ENV === 'production') {
+      const value = await prebuilt()
+      if (value) {
+        cached = { value, inputs: null }
+        return value
+      }
+    }
+
+    const inputs = await read()
+    if (cached?.inputs && unchanged(cached.inputs, inputs)) {
+      return cached.value
+    }
+
+    const value = build(inputs)
+    cached = { value, inputs }
+    return value
+  }
+
+  return {
+    load: () => {
+      // Content cannot change in a production deployment
+      if (cached && process.env.NODE_ENV === 'production') {
+        return Promise.resolve(cached.value)
+      }
+
+      // Share one build between concurrent loads
+      if (!pending) {
+        pending = refresh().finally(() => {
+          pending = null
+        })
+      }
+      return pending
+    },
+    clear: () => {
+      cached = null
+    }
+  }
+}
+
+/**
+ * Whether two loads of the pages have the same pages with the same content
+ */
+export function samePageHashes(a: ContentPage[], b: ContentPage[]): boolean {
+  if (a.length !== b.length) return false
+  const hashes = new Map(a.map(page => [page.slug, page.hash]))
+  return b.every(page => hashes.get(page.slug) === page.hash)
+}
@@ -0,0 +1,94 @@
+/**
+ * Chat Client
+ *
+ * Browser-side access to /api/ai/chat for the chat panel: sends a question
+ * and reads the streamed answer token by token (see lib/chat-stream.ts).
+ * Other parts of the page open the panel with a request about selected text
+ * through openChat.
+ */
+
+import type { CitedSource, UnsupportedCitation } from './citations'
+import { readServerSentEvents } from './chat-stream'
+import { MAX_HISTORY_TURNS, type ChatTurn, type TextSelection } from './prompt-cache'
+
+export type ChatMessage = ChatTurn
+
+export interface ChatRequest {
+  message: string
+  slug?: string             // current page, used as context
+  context?: ChatMessage[]   // earlier turns, oldest first
+  selectedText?: string     // text selected on the page to ask about
+  selectedHeading?: string  // section the selection is in
+}
+
+/** What to do with selected text: explain it, ask about it, or find sources for it */
+export type SelectionAction = 'explain' | 'ask' | 'sources'
+
+export interface OpenChatRequest {
+  action: SelectionAction
+  selection: TextSelection
+}
+
+export const OPEN_CHAT_EVENT = 'ai-chat:open'
+
+/**
+ * Open the chat panel with a request about selected text
+ */
+export function openChat(request: OpenChatRequest): void {
+  window.dispatchEvent(new CustomEvent<OpenChatRequest>(OPEN_CHAT_EVENT, { detail: request }))
+}
+
+export interface ChatAnswer {
+  text: string
+  model?: string                      // model the question was routed to
+  sources: CitedSource[]              // passages the answer was given to cite
+  unsupported: UnsupportedCitation[]  // citations of anything else
+}
+
+/**
+ * Ask a question, calling `onToken` as the answer streams in
+ * Resolves with the full answer and its sources; rejects with the API's
+ * error message, or with an AbortError when `signal` stops the request.
+ */
+export async function streamChat(
+  request: ChatRequest,
+  onToken: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ChatAnswer> {
+  const response = await fetch('/api/ai/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    // The API trims long conversations itself, but caps how many turns it accepts
+    body: JSON.stringify({ ...request, context: request.context?.slice(-MAX_HISTORY_TURNS) }),
+    signal
+  })
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'AI request failed')
+  }
+
+  const answer: ChatAnswer = {
+    text: '',
+    model: response.headers.get('X-Chat-Model') || undefined,
+    sources: [],
+    unsupported: []
+  }
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const payload = JSON.parse(data)
+
+    if (event === 'token') {
+      answer.text += payload.text
+      onToken(payload.text)
+    } else if (event === 'citations') {
+      answer.sources = payload.sources
+      answer.unsupported = payload.unsupported
+    } else if (event === 'error') {
+      throw new Error(payload.error || 'AI request failed')
+    } else if (event === 'done') {
+      return answer
+    }
+  }
+
+  throw new Error('The answer was cut off')
+}
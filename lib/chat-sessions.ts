@@ -0,0 +1,201 @@
+/**
+ * Chat Sessions
+ *
+ * Conversations of the chat panel, kept in the browser's IndexedDB so they
+ * survive navigation and reloads. A session belongs to the page it was
+ * started on (`slug`), or to no page when started elsewhere; the panel
+ * lists either the current page's sessions or all of them.
+ * Sessions export to Markdown or JSON with their page, models and sources.
+ * Storage is optional: without IndexedDB (private browsing, tests) sessions
+ * are simply not kept.
+ */
+
+import type { ChatAnswer, ChatMessage } from './chat-client'
+import { citationHref, sourceDomain, type WebSource } from './citations'
+import type { TextSelection } from './prompt-cache'
+
+/** A message as shown in the panel and stored with its session */
+export type SessionMessage = ChatMessage & Partial<Pick<ChatAnswer, 'model' | 'sources' | 'unsupported'>> & {
+  webSources?: WebSource[]  // "Find Sources" results
+  selection?: TextSelection // text a question was asked about
+}
+
+export interface ChatSession {
+  id: string
+  slug: string | null       // page the session was started on
+  title: string             // first question
+  createdAt: string         // ISO timestamps
+  updatedAt: string
+  messages: SessionMessage[]
+}
+
+const DB_NAME = 'sacred-madness'
+const DB_VERSION = 1
+const STORE = 'chat-sessions'
+const EXPORT_VERSION = 1
+
+const TITLE_LENGTH = 80
+
+/**
+ * Title of a conversation: its first question
+ */
+export function sessionTitle(messages: SessionMessage[]): string {
+  const question = messages.find(message => message.role === 'user')?.content.replace(/\s+/g, ' ').trim()
+  if (!question) return 'New conversation'
+  return question.length > TITLE_LENGTH ? `${question.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : question
+}
+
+/**
+ * The answered questions of a conversation and their answers, as turns for
+ * the model
+ * Found-source lists ("Find Sources") are notes of the panel, not answers.
+ */
+export function conversationTurns(messages: SessionMessage[]): ChatMessage[] {
+  const turns = messages.filter(message => message.content && !message.webSources)
+  return turns
+    .filter((message, i) => message.role === 'assistant' || turns[i + 1]?.role === 'assistant')
+    .map(({ role, content }) => ({ role, content }))
+}
+
+/**
+ * Start a session for a page, or for no page
+ */
+export function createSession(slug?: string | null, now: Date = new Date()): ChatSession {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${now.getTime()}-${Math.random().toString(36).slice(2)}`
+
+  return {
+    id,
+    slug: slug || null,
+    title: 'New conversation',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    messages: []
+  }
+}
+
+// One connection per page load; null when IndexedDB is unavailable
+let database: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null)
+
+      const open = indexedDB.open(DB_NAME, DB_VERSION)
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('slug', 'slug')
+      }
+      open.onsuccess = () => resolve(open.result)
+      open.onerror = () => resolve(null)
+      open.onblocked = () => resolve(null)
+    })
+  }
+  return database
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T, F>(mode: IDBTransactionMode, fallback: F, request: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | F> {
+  try {
+    const db = await openDatabase()
+    if (!db) return fallback
+    return await settle(request(db.transaction(STORE, mode).objectStore(STORE)))
+  } catch {
+    // Storage may be full or disabled; sessions are optional
+    return fallback
+  }
+}
+
+/**
+ * Stored sessions, most recently updated first
+ * With a slug, only the sessions started on that page.
+ */
+export async function listSessions(slug?: string): Promise<ChatSession[]> {
+  const sessions: ChatSession[] = await withStore('readonly', [], store =>
+    slug ? store.index('slug').getAll(slug) : store.getAll()
+  )
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Store a session, replacing its earlier version
+ */
+export async function saveSession(session: ChatSession): Promise<void> {
+  await withStore('readwrite', null, store => store.put(session))
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', null, store => store.delete(id))
+}
+
+/**
+ * Models that answered in a session, in order of first use
+ */
+export function sessionModels(session: ChatSession): string[] {
+  return [...new Set(session.messages.flatMap(message => message.model ? [message.model] : []))]
+}
+
+/**
+ * A session as Markdown, with each answer's cited and web sources
+ * `baseUrl` makes the wiki links absolute, e.g. "https://sacred-madness.vercel.app".
+ */
+export function exportSessionMarkdown(session: ChatSession, baseUrl = ''): string {
+  const models = sessionModels(session)
+  const lines = [
+    `# ${session.title}`,
+    '',
+    `- Page: ${session.slug ? `[${session.slug}](${baseUrl}/wiki/${session.slug})` : 'none'}`,
+    `- Model: ${models.length > 0 ? models.join(', ') : 'unknown'}`,
+    `- Started: ${session.createdAt}`,
+    `- Updated: ${session.updatedAt}`
+  ]
+
+  for (const message of session.messages) {
+    lines.push('', message.role === 'user' ? '## Question' : '## Answer', '')
+
+    if (message.selection) {
+      if (message.selection.heading) lines.push(`> **${message.selection.heading}**`, '>')
+      lines.push(...message.selection.text.split('\n').map(line => `> ${line}`), '')
+    }
+    lines.push(message.content)
+
+    if (message.sources && message.sources.length > 0) {
+      lines.push('', 'Sources:')
+      for (const source of message.sources) {
+        const label = [source.title, source.heading].filter(Boolean).join(' › ')
+        lines.push(`- [${source.key}] [${label}](${baseUrl}${citationHref(source)})`)
+      }
+    }
+    if (message.unsupported && message.unsupported.length > 0) {
+      lines.push('', 'Unverified citations (not among the passages supplied):')
+      lines.push(...message.unsupported.map(citation => `- [${citation.key}] ${citation.claim}`))
+    }
+    if (message.webSources && message.webSources.length > 0) {
+      lines.push('')
+      lines.push(...message.webSources.map(source => `- [${source.title}](${source.url}) (${sourceDomain(source.url)})`))
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * A session as JSON, with the models that answered
+ */
+export function exportSessionJson(session: ChatSession): string {
+  return JSON.stringify({ version: EXPORT_VERSION, ...session, models: sessionModels(session) }, null, 2)
+}
+
+/**
+ * File name for an exported session, e.g. "majdhub-2026-10-19.md"
+ */
+export function sessionFileName(session: ChatSession, extension: 'md' | 'json'): string {
+  return `${session.slug || 'chat'}-${session.createdAt.slice(0, 10)}.${extension}`
+}
@@ -0,0 +1,180 @@
+/**
+ * Chat Streaming
+ *
+ * Server-sent events between OpenRouter, /api/ai/chat and the chat panel:
+ * - readServerSentEvents parses an SSE body, whether an upstream completion
+ *   or the route's own stream
+ * - proxyChatCompletion turns OpenRouter's completion chunks into `token`,
+ *   `done` and `error` events and reports the answer and token usage once
+ *   the stream ends, including when the reader stops it early
+ * - A `citations` event before `done` lists the sources the answer may cite
+ *   and the citations it made of anything else (lib/citations.ts)
+ */
+
+import type { CitedSource, UnsupportedCitation } from './citations'
+
+export interface ServerSentEvent {
+  event: string   // "message" unless the event names itself
+  data: string
+}
+
+/** Events sent by /api/ai/chat */
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'citations'; sources: CitedSource[]; unsupported: UnsupportedCitation[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string; code: string }
+
+export interface ChatStreamUsage {
+  inputTokens: number
+  outputTokens: number
+  cachedTokens: number
+}
+
+export interface ChatStreamResult {
+  text: string                    // answer streamed so far
+  usage: ChatStreamUsage | null   // null when upstream never reported it
+  aborted: boolean                // the reader cancelled the stream
+  error?: string
+}
+
+/**
+ * Parse a server-sent event stream
+ * Comments (OpenRouter's ": OPENROUTER PROCESSING" keep-alives) and events
+ * without data are skipped.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event = 'message'
+  let data: string[] = []
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      const lines = buffer.split(/\r\n|\r|\n/)
+      buffer = done ? '' : lines.pop()!
+
+      for (const line of done ? [...lines, ''] : lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') }
+          event = 'message'
+          data = []
+          continue
+        }
+        if (line.startsWith(':')) continue
+
+        const colon = line.indexOf(':')
+        const field = colon === -1 ? line : line.slice(0, colon)
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+        if (field === 'event') event = value
+        if (field === 'data') data.push(value)
+      }
+
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Format one event for a text/event-stream response
+ */
+export function formatServerSentEvent(event: ChatStreamEvent): string {
+  const { type, ...data } = event
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Relay an OpenRouter streaming completion as chat stream events
+ * `onFinish` runs exactly once: when upstream finishes or fails, or when the
+ * reader cancels, in which case `onCancel` should abort the upstream request.
+ * Events from `onComplete` are sent between a complete answer and `done`;
+ * if it throws, the stream ends with an error event instead.
+ */
+export function proxyChatCompletion(
+  upstream: ReadableStream<Uint8Array>,
+  { onFinish, onCancel, onComplete }: {
+    onFinish: (result: ChatStreamResult) => void
+    onCancel?: () => void
+    onComplete?: (text: string) => ChatStreamEvent[]
+  }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const chunks = readServerSentEvents(upstream)
+  let text = ''
+  let usage: ChatStreamUsage | null = null
+  let finished = false
+
+  const finish = (result: Pick<ChatStreamResult, 'aborted' | 'error'>) => {
+    if (finished) return false
+    finished = true
+    onFinish({ text, usage, ...result })
+    return true
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(formatServerSentEvent(event)))
+      const fail = (error: string, code: string) => {
+        if (finish({ aborted: false, error })) {
+          send({ type: 'error', error, code })
+          controller.close()
+        }
+      }
+
+      try {
+        // Read until there is something to send; role-only and usage chunks carry no text
+        for (;;) {
+          const { value, done } = await chunks.next()
+
+          if (done || value.data === '[DONE]') {
+            if (!text) return fail('Invalid AI response format', 'INVALID_AI_RESPONSE')
+            if (finish({ aborted: false })) {
+              // The answer is complete either way; a failed check must still end the stream
+              try {
+                onComplete?.(text).forEach(send)
+                send({ type: 'done' })
+              } catch (error) {
+                send({ type: 'error', error: error instanceof Error ? error.message : String(error), code: 'COMPLETION_FAILED' })
+              } finally {
+                controller.close()
+              }
+            }
+            return
+          }
+
+          const chunk = JSON.parse(value.data)
+          if (chunk.error) throw new Error(chunk.error.message || 'AI service error')
+
+          if (chunk.usage) {
+            usage = {
+              inputTokens: chunk.usage.prompt_tokens || 0,
+              outputTokens: chunk.usage.completion_tokens || 0,
+              cachedTokens: chunk.usage.prompt_tokens_details?.cached_tokens || 0
+            }
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content
+          if (delta) {
+            text += delta
+            send({ type: 'token', text: delta })
+            return
+          }
+        }
+      } catch (error) {
+        // Reads also fail once a cancelled request is aborted; finish() ignores those
+        fail(error instanceof Error ? error.message : String(error), 'AI_SERVICE_ERROR')
+      }
+    },
+
+    cancel() {
+      finish({ aborted: true })
+      onCancel?.()
+    }
+  })
+}
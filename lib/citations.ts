@@ -0,0 +1,206 @@
+/**
+ * Chat Citations
+ *
+ * Chat answers cite the passages they draw on (lib/passage-index.ts) with
+ * `[slug#heading]` markers, or `[slug]` for text before a page's first
+ * heading. Only markers naming a wiki page count, so bracketed notes like
+ * `[1]` or `[sic]` stay text. The chat panel turns markers into links to
+ * /wiki/slug#heading; the chat route checks that every cited source was one
+ * of the passages the model was given, and flags the claims that cite
+ * anything else.
+ * Web sources found for a topic ("Find Sources") are cited as plain
+ * references (formatWebCitation).
+ */
+
+import type { Link, Parent, PhrasingContent, Root, Text } from 'mdast'
+import type { Passage } from './passage-index'
+
+/** A source the model was given, as sent to the chat panel */
+export interface CitedSource {
+  key: string               // marker text, `slug#anchor` or `slug`
+  slug: string
+  anchor: string | null
+  title: string             // page title
+  heading: string | null
+}
+
+/** A citation of a source the model was not given */
+export interface UnsupportedCitation {
+  key: string
+  claim: string             // sentence the marker belongs to
+}
+
+/** A web source from /api/ai/citations */
+export interface WebSource {
+  title: string
+  url: string
+  snippet: string
+  score?: number
+}
+
+export interface CitationMarker {
+  key: string
+  slug: string
+  anchor: string | null
+  index: number             // position of the marker in the text
+  length: number
+}
+
+// [slug] or [slug#anchor], but not the text of a markdown link ("[text](url)")
+const CITATION_PATTERN = /\[([a-z0-9]+(?:-[a-z0-9]+)*)(?:#([\w-]+))?\](?!\()/g
+
+/**
+ * Marker for a passage: its page and, when it has one, its section
+ */
+export function citationKey(passage: Pick<Passage, 'slug' | 'anchor'>): string {
+  return passage.anchor ? `${passage.slug}#${passage.anchor}` : passage.slug
+}
+
+/**
+ * Link target of a citation
+ */
+export function citationHref({ slug, anchor }: Pick<CitedSource, 'slug' | 'anchor'>): string {
+  return anchor ? `/wiki/${slug}#${anchor}` : `/wiki/${slug}`
+}
+
+/**
+ * The sources given to the model, one per marker, in order
+ */
+export function toCitedSources(passages: Passage[]): CitedSource[] {
+  const sources = new Map<string, CitedSource>()
+  for (const passage of passages) {
+    const key = citationKey(passage)
+    if (!sources.has(key)) {
+      sources.set(key, { key, slug: passage.slug, anchor: passage.anchor, title: passage.title, heading: passage.heading })
+    }
+  }
+  return [...sources.values()]
+}
+
+/**
+ * Find the citation markers in an answer: those naming one of `slugs`
+ */
+export function findCitations(text: string, slugs: ReadonlySet<string>): CitationMarker[] {
+  return [...text.matchAll(CITATION_PATTERN)]
+    .filter(match => slugs.has(match[1]))
+    .map(match => ({
+      key: match[2] ? `${match[1]}#${match[2]}` : match[1],
+      slug: match[1],
+      anchor: match[2] || null,
+      index: match.index ?? 0,
+      length: match[0].length
+    }))
+}
+
+/**
+ * The sentence around a position, markers included
+ */
+function sentenceAt(text: string, index: number): string {
+  const before = text.slice(0, index)
+  const start = Math.max(before.search(/[^.!?\n]*$/), 0)
+  const end = text.slice(index).search(/[.!?](\s|$)|\n/)
+  return text.slice(start, end === -1 ? text.length : index + end + 1).trim()
+}
+
+/**
+ * Citations in an answer of sources that were never supplied, one per claim
+ * A page-level marker ([slug]) is supported by any passage of that page.
+ * `pageSlugs` are the wiki's pages; markers naming none of them or of the
+ * sources are not citations.
+ */
+export function findUnsupportedCitations(text: string, sources: CitedSource[], pageSlugs: Iterable<string>): UnsupportedCitation[] {
+  const keys = new Set(sources.flatMap(source => [source.key, source.slug]))
+  const slugs = new Set([...pageSlugs, ...sources.map(source => source.slug)])
+  const unsupported = new Map<string, UnsupportedCitation>()
+
+  for (const marker of findCitations(text, slugs)) {
+    if (keys.has(marker.key)) continue
+
+    const claim = sentenceAt(text, marker.index)
+    unsupported.set(`${marker.key}\n${claim}`, { key: marker.key, claim })
+  }
+
+  return [...unsupported.values()]
+}
+
+export interface RemarkCitationsOptions {
+  slugs: ReadonlySet<string>  // pages a marker may name
+}
+
+/**
+ * Remark plugin: turn citation markers in text into links to the cited section
+ * Each link carries its marker as `data-citation`, for the chat panel to
+ * render it as a chip.
+ */
+export function remarkCitations({ slugs }: RemarkCitationsOptions) {
+  return (tree: Root) => {
+    transformChildren(tree, slugs)
+  }
+}
+
+function transformChildren(node: Parent, slugs: ReadonlySet<string>): void {
+  const children: Parent['children'] = []
+
+  for (const child of node.children) {
+    if (child.type === 'text') {
+      children.push(...splitTextNode(child, slugs))
+      continue
+    }
+
+    // Leave existing links alone
+    if ('children' in child && child.type !== 'link' && child.type !== 'linkReference') {
+      transformChildren(child, slugs)
+    }
+    children.push(child)
+  }
+
+  node.children = children as typeof node.children
+}
+
+function splitTextNode(node: Text, slugs: ReadonlySet<string>): PhrasingContent[] {
+  const citations = findCitations(node.value, slugs)
+  if (citations.length === 0) return [node]
+
+  const parts: PhrasingContent[] = []
+  let cursor = 0
+
+  for (const citation of citations) {
+    if (citation.index > cursor) {
+      parts.push({ type: 'text', value: node.value.slice(cursor, citation.index) })
+    }
+
+    const link: Link = {
+      type: 'link',
+      url: citationHref(citation),
+      data: { hProperties: { dataCitation: citation.key } },
+      children: [{ type: 'text', value: citation.key }]
+    }
+    parts.push(link)
+    cursor = citation.index + citation.length
+  }
+
+  if (cursor < node.value.length) {
+    parts.push({ type: 'text', value: node.value.slice(cursor) })
+  }
+
+  return parts
+}
+
+/**
+ * Site name of a web source, e.g. "jstor.org"
+ */
+export function sourceDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Reference for a web source, with the date it was accessed
+ */
+export function formatWebCitation(source: WebSource, accessed: Date = new Date()): string {
+  const date = accessed.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })
+  return `${source.title.trim().replace(/\.$/, '')}. ${sourceDomain(source.url)}. ${source.url} (accessed ${date}).`
+}
@@ -0,0 +1,203 @@
+/**
+ * Frontmatter Schema Validation
+ *
+ * Declares the expected shape of wiki page frontmatter and checks every
+ * page in content/chapters and content/papers against it:
+ * - Required fields and field types (e.g. `keywords` given as a string)
+ * - Cross-references (`related` / `seeAlso` pointing at unknown slugs)
+ * - Unknown fields (usually typos such as `see_also`)
+ *
+ * Issues carry file, line and field so editors can jump straight to them.
+ * Runs from `npm run validate:content` and during `generateStaticParams`.
+ */
+
+import { relative } from 'path'
+import matter from 'gray-matter'
+import { COLLECTIONS, listSlugs, loadAllPages, type Frontmatter } from './content'
+
+export type FieldType = 'string' | 'string[]' | 'slug[]'
+export type IssueSeverity = 'error' | 'warning'
+
+export interface FieldRule {
+  type: FieldType
+  required?: boolean
+}
+
+export interface ValidationIssue {
+  file: string
+  line: number
+  field: string
+  severity: IssueSeverity
+  message: string
+}
+
+export interface ValidationReport {
+  filesChecked: number
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+/**
+ * Declared frontmatter schema for WikiPage
+ * `slug[]` fields must reference an existing chapter slug
+ */
+export const FRONTMATTER_SCHEMA: Record<keyof Frontmatter, FieldRule> = {
+  title: { type: 'string', required: true },
+  description: { type: 'string' },
+  category: { type: 'string' },
+  keywords: { type: 'string[]' },
+  related: { type: 'slug[]' },
+  seeAlso: { type: 'slug[]' }
+}
+
+/**
+ * Validate one file's frontmatter against the schema
+ *
+ * @param file - Path reported in issues (relative to the repo root)
+ * @param source - Raw file contents, used to locate line numbers
+ * @param knownSlugs - Slugs that `related` / `seeAlso` may reference
+ */
+export function validateFrontmatter(
+  file: string,
+  source: string,
+  knownSlugs: Set<string>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const { data } = matter(source)
+  const lines = source.split('\n')
+
+  const issue = (field: string, severity: IssueSeverity, message: string, value?: string) => {
+    issues.push({ file, line: locateFrontmatterField(lines, field, value), field, severity, message })
+  }
+
+  for (const [field, rule] of Object.entries(FRONTMATTER_SCHEMA)) {
+    const value = data[field]
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        // A leading "# Heading" is an acceptable fallback for papers without frontmatter
+        const hasHeading = lines.some(line => /^#\s+\S/.test(line))
+        issue(
+          field,
+          hasHeading ? 'warning' : 'error',
+          hasHeading
+            ? `Missing required field "${field}" (falling back to first heading)`
+            : `Missing required field "${field}"`
+        )
+      }
+      continue
+    }
+
+    if (rule.type === 'string') {
+      if (typeof value !== 'string') {
+        issue(field, 'error', `Expected "${field}" to be a string, got ${describeType(value)}`)
+      } else if (rule.required && !value.trim()) {
+        issue(field, 'error', `Field "${field}" must not be empty`)
+      }
+      continue
+    }
+
+    if (!Array.isArray(value)) {
+      issue(field, 'error', `Expected "${field}" to be a list of strings, got ${describeType(value)}`)
+      continue
+    }
+
+    for (const item of value) {
+      if (typeof item !== 'string') {
+        issue(field, 'error', `Expected every "${field}" entry to be a string, got ${describeType(item)}`)
+        continue
+      }
+
+      if (rule.type === 'slug[]' && !knownSlugs.has(item)) {
+        issue(field, 'error', `"${field}" references unknown page "${item}"`, item)
+      }
+    }
+  }
+
+  for (const field of Object.keys(data)) {
+    if (!(field in FRONTMATTER_SCHEMA)) {
+      issue(field, 'warning', `Unknown frontmatter field "${field}"`)
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Validate every page in content/chapters and content/papers
+ */
+export async function validateContent(): Promise<ValidationReport> {
+  const knownSlugs = new Set(await listSlugs())
+  // Load each collection on its own so a slug in both is checked in both
+  const collections = await Promise.all(COLLECTIONS.map(collection => loadAllPages(collection)))
+  const pages = collections.flat()
+
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+
+  for (const page of pages) {
+    const issues = validateFrontmatter(relative(process.cwd(), page.filePath), page.source, knownSlugs)
+
+    for (const issue of issues) {
+      if (issue.severity === 'error') {
+        errors.push(issue)
+      } else {
+        warnings.push(issue)
+      }
+    }
+  }
+
+  return {
+    filesChecked: pages.length,
+    errors,
+    warnings
+  }
+}
+
+/**
+ * Format a report as `file:line  field  message` lines
+ */
+export function formatValidationReport(report: ValidationReport): string {
+  const format = (issue: ValidationIssue) =>
+    `${issue.file}:${issue.line}  [${issue.severity}] ${issue.field}: ${issue.message}`
+
+  return [
+    `Checked ${report.filesChecked} files: ${report.errors.length} errors, ${report.warnings.length} warnings`,
+    ...report.errors.map(format),
+    ...report.warnings.map(format)
+  ].join('\n')
+}
+
+/**
+ * Find the 1-based line of a frontmatter field (or of a value under it)
+ * Falls back to line 1 when the field is absent
+ */
+export function locateFrontmatterField(lines: string[], field: string, value?: string): number {
+  // Delimiters may carry trailing whitespace, e.g. the "\r" of CRLF files
+  const isDelimiter = (line: string) => /^---\s*$/.test(line)
+  if (!isDelimiter(lines[0] ?? '')) return 1
+
+  const end = lines.findIndex((line, i) => i > 0 && isDelimiter(line))
+  const lastLine = end === -1 ? lines.length : end
+  // Keys are compared as text; unknown keys may contain any character
+  const isFieldLine = (line: string) => line.startsWith(field) && /^\s*:/.test(line.slice(field.length))
+
+  for (let i = 1; i < lastLine; i++) {
+    if (!isFieldLine(lines[i])) continue
+    if (value === undefined) return i + 1
+
+    // Scan the field line and its indented continuation lines for the value
+    for (let j = i; j < lastLine; j++) {
+      if (j > i && /^\S/.test(lines[j])) break
+      if (lines[j].includes(value)) return j + 1
+    }
+    return i + 1
+  }
+
+  return 1
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return 'a list'
+  return typeof value
+}
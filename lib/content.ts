@@ -0,0 +1,217 @@
+/**
+ * Content Repository
+ *
+ * Single typed entry point for reading wiki content from disk:
+ * - Lists and loads pages from each collection (content/chapters, content/papers)
+ * - Normalizes frontmatter with one set of defaults
+ * - Rejects unsafe slugs before touching the filesystem
+ * - Memoizes parsed pages, keyed by file mtime
+ * - Fingerprints each page with a content hash for downstream caches
+ *
+ * Every page, route and library that needs wiki content goes through here
+ * so frontmatter handling cannot drift between callers.
+ */
+
+import { createHash } from 'crypto'
+import { readdir, readFile, stat } from 'fs/promises'
+import { join } from 'path'
+import matter from 'gray-matter'
+
+export interface Frontmatter {
+  title: string
+  description?: string
+  category?: string
+  keywords: string[]
+  related: string[]
+  seeAlso: string[]
+}
+
+/**
+ * Folder of content a page comes from
+ */
+export type Collection = 'chapters' | 'papers'
+
+/**
+ * Collections in lookup order: a chapter wins over a paper with the same slug
+ */
+export const COLLECTIONS: Collection[] = ['chapters', 'papers']
+
+export interface ContentPage {
+  slug: string
+  collection: Collection
+  frontmatter: Frontmatter
+  content: string
+  source: string
+  lineOffset: number  // lines before `content` starts (frontmatter block)
+  hash: string        // sha256 of the raw source
+  filePath: string
+  mtimeMs: number
+}
+
+interface CacheEntry {
+  mtimeMs: number
+  page: ContentPage
+}
+
+// In-memory parse cache (per process), keyed by `collection/slug`
+const pageCache = new Map<string, CacheEntry>()
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+/**
+ * Directory holding a collection's markdown files
+ */
+export function getCollectionDir(collection: Collection): string {
+  return join(process.cwd(), 'content', collection)
+}
+
+/**
+ * Directory holding the chapter markdown files
+ */
+export function getChaptersDir(): string {
+  return getCollectionDir('chapters')
+}
+
+/**
+ * Directory holding the research paper markdown files
+ */
+export function getPapersDir(): string {
+  return getCollectionDir('papers')
+}
+
+/**
+ * Check that a slug is safe to map onto a file name
+ * Matches the `^[a-z0-9-]+$` pattern documented in the API spec
+ */
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug)
+}
+
+/**
+ * Normalize raw gray-matter data into typed frontmatter
+ * Missing or mistyped fields fall back to the same defaults everywhere;
+ * a missing title falls back to `fallbackTitle` (the first heading), then the slug
+ */
+export function normalizeFrontmatter(
+  data: Record<string, unknown>,
+  slug: string,
+  fallbackTitle?: string
+): Frontmatter {
+  return {
+    title: typeof data.title === 'string' && data.title.trim() ? data.title : fallbackTitle || slug,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    category: typeof data.category === 'string' ? data.category : undefined,
+    keywords: toStringArray(data.keywords),
+    related: toStringArray(data.related),
+    seeAlso: toStringArray(data.seeAlso)
+  }
+}
+
+function toStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((item): item is string => typeof item === 'string')
+}
+
+/**
+ * Text of the first `# ` heading, used as the title of pages without frontmatter
+ */
+function firstHeading(content: string): string | undefined {
+  return content.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1]
+}
+
+async function listCollectionSlugs(collection: Collection): Promise<string[]> {
+  let files: string[]
+  try {
+    files = await readdir(getCollectionDir(collection))
+  } catch (error) {
+    // Only chapters are required; other collections are optional folders
+    if (collection === 'chapters') throw error
+    return []
+  }
+
+  return files
+    .filter(file => file.endsWith('.md'))
+    .map(file => file.replace(/\.md$/, ''))
+    .filter(isValidSlug)
+}
+
+/**
+ * List page slugs, sorted alphabetically
+ * Covers every collection unless one is given; a slug in several
+ * collections is listed once
+ */
+export async function listSlugs(collection?: Collection): Promise<string[]> {
+  const collections = collection ? [collection] : COLLECTIONS
+  const slugs = await Promise.all(collections.map(listCollectionSlugs))
+
+  return [...new Set(slugs.flat())].sort()
+}
+
+/**
+ * Get a single page by slug
+ * Looks through the collections in order unless one is given
+ * Returns null for invalid slugs and missing files
+ */
+export async function getPage(slug: string, collection?: Collection): Promise<ContentPage | null> {
+  if (!isValidSlug(slug)) return null
+
+  for (const candidate of collection ? [collection] : COLLECTIONS) {
+    const page = await readPage(slug, candidate)
+    if (page) return page
+  }
+  return null
+}
+
+async function readPage(slug: string, collection: Collection): Promise<ContentPage | null> {
+  const filePath = join(getCollectionDir(collection), `${slug}.md`)
+  const cacheKey = `${collection}/${slug}`
+
+  let mtimeMs: number
+  try {
+    mtimeMs = (await stat(filePath)).mtimeMs
+  } catch {
+    pageCache.delete(cacheKey)
+    return null
+  }
+
+  const cached = pageCache.get(cacheKey)
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.page
+  }
+
+  const source = await readFile(filePath, 'utf8')
+  const { data, content } = matter(source)
+
+  const page: ContentPage = {
+    slug,
+    collection,
+    frontmatter: normalizeFrontmatter(data, slug, firstHeading(content)),
+    content,
+    source,
+    lineOffset: source.split('\n').length - content.split('\n').length,
+    hash: createHash('sha256').update(source).digest('hex'),
+    filePath,
+    mtimeMs
+  }
+
+  pageCache.set(cacheKey, { mtimeMs, page })
+  return page
+}
+
+/**
+ * Load every page, in slug order
+ * Covers every collection unless one is given
+ */
+export async function loadAllPages(collection?: Collection): Promise<ContentPage[]> {
+  const slugs = await listSlugs(collection)
+  const pages = await Promise.all(slugs.map(slug => getPage(slug, collection)))
+
+  return pages.filter((page): page is ContentPage => page !== null)
+}
+
+/**
+ * Clear the parse cache (used by tests and content tooling)
+ */
+export function clearContentCache(): void {
+  pageCache.clear()
+}
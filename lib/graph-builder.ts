@@ -1,10 +1,14 @@
-import { readdir, readFile } from 'fs/promises'
-import { join } from 'path'
-import matter from 'gray-matter'
+import { relative } from 'path'
+import { createCachedLoader, samePageHashes } from './cached-loader'
+import { loadAllPages, type Collection, type ContentPage } from './content'
+import { locateFrontmatterField } from './content-schema'
+import { headingId } from './toc'
+import { buildPageIndex, findCodeSpans, findWikiLinks, isCodeFence, resolveWikiLink, type PageIndex } from './wikilinks'
 
 export interface WikiPage {
   slug: string
   title: string
+  collection?: Collection
   description?: string
   category?: string
   keywords?: string[]
@@ -12,86 +16,360 @@ export interface WikiPage {
   seeAlso?: string[]
 }
 
+export interface BrokenLink {
+  from: string   // source slug
+  to: string     // missing target slug
+  file: string   // source file, relative to the repo root
+  line: number   // 1-based line in the source file
+}
+
+/**
+ * How a link was made: frontmatter `related` / `seeAlso`, or a link in the text
+ */
+export type LinkType = 'related' | 'seeAlso' | 'inline'
+
+export interface LinkSection {
+  id: string     // heading anchor (same ids as the table of contents)
+  title: string  // heading text
+}
+
+export interface LinkEdge {
+  from: string
+  to: string
+  type: LinkType
+  count: number                   // lines the link appears on (1 for frontmatter links)
+  sections: LinkSection[]         // headings inline links appear under
+  occurrences: LinkOccurrence[]   // inline links only
+}
+
 export interface LinkGraph {
   pages: Map<string, WikiPage>
   forwardLinks: Map<string, Set<string>>  // slug -> links to
   backlinks: Map<string, Set<string>>     // slug -> linked from
+  edges: LinkEdge[]                       // one per source, target and link type
+  brokenLinks: BrokenLink[]               // links to pages that do not exist
+}
+
+/**
+ * Serializable graph for client-side views (existing pages only)
+ */
+export interface GraphData {
+  nodes: Array<Pick<WikiPage, 'slug' | 'title' | 'collection' | 'description' | 'category' | 'keywords'>>
+  edges: Array<{ from: string; to: string }>
+}
+
+/**
+ * The sentence around a link, split so the anchor text can be highlighted
+ */
+export interface LinkContext {
+  before: string
+  anchor: string
+  after: string
+}
+
+export interface LinkOccurrence {
+  slug: string
+  line: number            // 1-based line within the content
+  column: number          // 1-based column of the first link to this slug on the line
+  text: string            // anchor text as displayed
+  context: LinkContext    // surrounding sentence, markdown stripped
+  section?: LinkSection   // nearest heading above the link
 }
 
 /**
- * Extract wiki links from markdown content
- * Supports: [text](/wiki/slug), [[slug]], /wiki/slug
+ * A page linking to the current page, with how and where it links
  */
-function extractWikiLinks(content: string): string[] {
-  const links: string[] = []
+export interface BacklinkDetail {
+  page: WikiPage
+  types: LinkType[]
+  count: number                   // inline mentions
+  sections: LinkSection[]         // headings of the linking page the mentions appear under
+  mentions: LinkOccurrence[]      // where each inline mention occurs
+}
+
+/**
+ * A link found on a single line of markdown
+ */
+export interface LineLink {
+  slug: string
+  text: string    // anchor text
+  index: number   // offset of the link syntax in the line
+  length: number  // length of the link syntax
+}
+
+const CONTEXT_MAX_LENGTH = 120  // characters kept on each side of the anchor
+
+/**
+ * Extract wiki links from markdown content, with the position, anchor text,
+ * surrounding sentence and heading of each
+ * Supports: [text](/wiki/slug), [[slug]], [[Page Title]], [[text|slug]], /wiki/slug
+ */
+export function extractWikiLinks(content: string, pageIndex: PageIndex): LinkOccurrence[] {
+  const occurrences: LinkOccurrence[] = []
+  let section: LinkSection | undefined
+  let inCodeBlock = false
+
+  content.split('\n').forEach((text, index) => {
+    // Fenced code renders as code, without links or headings
+    if (isCodeFence(text)) {
+      inCodeBlock = !inCodeBlock
+      return
+    }
+    if (inCodeBlock) return
+
+    section = getHeadingSection(text) || section
+
+    const links = findLineLinks(text, pageIndex)
 
-  // Match [text](/wiki/slug)
-  const markdownLinks = content.matchAll(/\[([^\]]+)\]\(\/wiki\/([^)]+)\)/g)
+    const seen = new Set<string>()
+    for (const link of links) {
+      if (seen.has(link.slug)) continue  // Deduplicate per line
+      seen.add(link.slug)
+
+      const occurrence: LinkOccurrence = {
+        slug: link.slug,
+        line: index + 1,
+        column: link.index + 1,
+        text: link.text,
+        context: linkContext(text, link, links)
+      }
+      if (section) occurrence.section = section
+      occurrences.push(occurrence)
+    }
+  })
+
+  return occurrences
+}
+
+/**
+ * The section a markdown heading line starts, or undefined for other lines
+ */
+export function getHeadingSection(line: string): LinkSection | undefined {
+  const heading = line.match(/^#{1,6}\s+(.+?)\s*#*$/)
+  return heading ? { id: headingId(heading[1]), title: heading[1] } : undefined
+}
+
+/**
+ * Find the links on one line of markdown, in order and without overlaps
+ */
+export function findLineLinks(text: string, pageIndex: PageIndex): LineLink[] {
+  const links: LineLink[] = []
+
+  // Match [text](/wiki/slug) - anchors (#section) are not part of the slug
+  const markdownLinks = text.matchAll(/\[([^\]]+)\]\(\/wiki\/([^)#]+)(?:#[^)]*)?\)/g)
   for (const match of markdownLinks) {
-    links.push(match[2])
+    links.push({ slug: match[2], text: match[1], index: match.index ?? 0, length: match[0].length })
   }
 
-  // Match [[slug]] or [[text|slug]]
-  const wikiLinks = content.matchAll(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g)
-  for (const match of wikiLinks) {
-    const slug = match[2] || match[1]
-    links.push(slug.toLowerCase().replace(/\s+/g, '-'))
+  // Match [[slug]] or [[text|slug]], resolved the same way the page renders them
+  for (const wikiLink of findWikiLinks(text)) {
+    links.push({
+      slug: resolveWikiLink(wikiLink.target, pageIndex),
+      text: wikiLink.text,
+      index: wikiLink.index,
+      length: wikiLink.length
+    })
   }
 
   // Match raw /wiki/slug in text
-  const rawLinks = content.matchAll(/\/wiki\/([a-z0-9-]+)/g)
+  const rawLinks = text.matchAll(/\/wiki\/([a-z0-9-]+)/g)
   for (const match of rawLinks) {
-    if (!links.includes(match[1])) {
-      links.push(match[1])
+    links.push({ slug: match[1], text: match[0], index: match.index ?? 0, length: match[0].length })
+  }
+
+  // Drop matches nested in an earlier one (e.g. the /wiki/slug inside [text](/wiki/slug))
+  // and matches in inline code, which renders as code
+  const codeSpans = findCodeSpans(text)
+  links.sort((a, b) => a.index - b.index || b.length - a.length)
+  const positioned: LineLink[] = []
+  for (const link of links) {
+    if (codeSpans.some(([start, end]) => link.index >= start && link.index < end)) continue
+    const previous = positioned[positioned.length - 1]
+    if (!previous || link.index >= previous.index + previous.length) {
+      positioned.push(link)
     }
   }
 
-  return [...new Set(links)]  // Deduplicate
+  return positioned
+}
+
+/**
+ * Plain-text sentence around a link: other links are replaced by their text,
+ * markdown markers are stripped and long sentences are cut at word boundaries
+ */
+export function linkContext(line: string, link: LineLink, links: LineLink[]): LinkContext {
+  const toPlain = (from: number, to: number) => {
+    let plain = ''
+    let cursor = from
+    for (const other of links) {
+      if (other.index < from || other.index >= to) continue
+      plain += line.slice(cursor, other.index) + other.text
+      cursor = other.index + other.length
+    }
+    return stripMarkdown(plain + line.slice(cursor, to))
+  }
+
+  let before = toPlain(0, link.index).replace(/^\s*(?:#{1,6}|[-*+]|\d+\.|>)\s+/, '')
+  let after = toPlain(link.index + link.length, line.length)
+
+  // Keep only the sentence containing the link
+  const sentenceStart = before.search(/[.!?]["')\]]?\s+(?=[^.!?]*$)/)
+  if (sentenceStart !== -1) {
+    before = before.slice(sentenceStart).replace(/^[.!?]["')\]]?\s+/, '')
+  }
+  const sentenceEnd = after.search(/[.!?]["')\]]?(\s|$)/)
+  if (sentenceEnd !== -1) {
+    after = after.slice(0, sentenceEnd + 1)
+    if (/["')\]]/.test(after.charAt(sentenceEnd + 1))) after += after.charAt(sentenceEnd + 1)
+  }
+
+  if (before.length > CONTEXT_MAX_LENGTH) {
+    before = `…${before.slice(-CONTEXT_MAX_LENGTH).replace(/^\S*\s/, '')}`
+  }
+  if (after.length > CONTEXT_MAX_LENGTH) {
+    after = `${after.slice(0, CONTEXT_MAX_LENGTH).replace(/\s\S*$/, '')}…`
+  }
+
+  return { before: before.trimStart(), anchor: stripMarkdown(link.text), after: after.trimEnd() }
+}
+
+function stripMarkdown(text: string): string {
+  return text.replace(/(\*{1,3}|_{2,3}|`)/g, '')
+}
+
+interface PageLinksEntry {
+  hash: string
+  links: LinkOccurrence[]
 }
 
+// Per-process graph cache
+// Pages are re-read only when their mtime changes (see lib/content.ts) and
+// re-scanned for links only when their content hash changes
+const linkGraphLoader = createCachedLoader({
+  read: () => loadAllPages(),
+  unchanged: samePageHashes,
+  build: assembleLinkGraph
+})
+const pageLinksCache = new Map<string, PageLinksEntry>()
+let pageIndexKey = ''
+
 /**
  * Build complete link graph from all chapters
+ *
+ * Cached per process: in production the graph is built once; in development
+ * each call checks file mtimes/hashes and updates only the changed chapters.
  */
-export async function buildLinkGraph(): Promise<LinkGraph> {
-  const chaptersDir = join(process.cwd(), 'content/chapters')
-  const files = await readdir(chaptersDir)
+export function buildLinkGraph(): Promise<LinkGraph> {
+  return linkGraphLoader.load()
+}
+
+/**
+ * Drop all cached graph state (used by tests and content tooling)
+ */
+export function clearLinkGraphCache(): void {
+  linkGraphLoader.clear()
+  pageLinksCache.clear()
+  pageIndexKey = ''
+}
+
+/**
+ * Extract links for a page, reusing the previous result if its hash is unchanged
+ */
+function getPageLinks(page: ContentPage, pageIndex: PageIndex): LinkOccurrence[] {
+  const cached = pageLinksCache.get(page.slug)
+  if (cached && cached.hash === page.hash) {
+    return cached.links
+  }
+
+  const links = extractWikiLinks(page.content, pageIndex)
+  pageLinksCache.set(page.slug, { hash: page.hash, links })
+  return links
+}
+
+function assembleLinkGraph(contentPages: ContentPage[]): LinkGraph {
+  const pageIndex = buildPageIndex(contentPages.map(page => ({ slug: page.slug, title: page.frontmatter.title })))
+
+  // [[Title]] resolution depends on every page's slug and title - if those
+  // changed, previously extracted links may resolve differently
+  const indexKey = JSON.stringify([...pageIndex])
+  if (indexKey !== pageIndexKey) {
+    pageLinksCache.clear()
+    pageIndexKey = indexKey
+  }
+
+  // Forget deleted pages
+  const slugs = new Set(contentPages.map(page => page.slug))
+  for (const slug of pageLinksCache.keys()) {
+    if (!slugs.has(slug)) pageLinksCache.delete(slug)
+  }
 
   const pages = new Map<string, WikiPage>()
   const forwardLinks = new Map<string, Set<string>>()
   const backlinks = new Map<string, Set<string>>()
 
   // First pass: Load all pages
-  for (const file of files) {
-    if (!file.endsWith('.md')) continue
-
-    const slug = file.replace('.md', '')
-    const filePath = join(chaptersDir, file)
-    const source = await readFile(filePath, 'utf8')
-    const { data: frontmatter, content } = matter(source)
-
-    pages.set(slug, {
-      slug,
-      title: frontmatter.title || slug,
-      description: frontmatter.description,
-      category: frontmatter.category,
-      keywords: frontmatter.keywords || [],
-      related: frontmatter.related || [],
-      seeAlso: frontmatter.seeAlso || []
-    })
+  for (const page of contentPages) {
+    const { slug, collection, frontmatter } = page
+    pages.set(slug, { slug, collection, ...frontmatter })
 
     // Extract links from content
-    const contentLinks = extractWikiLinks(content)
+    const contentLinks = getPageLinks(page, pageIndex).map(link => link.slug)
 
     // Combine content links + frontmatter related/seeAlso
     const allLinks = new Set([
       ...contentLinks,
-      ...(frontmatter.related || []),
-      ...(frontmatter.seeAlso || [])
+      ...frontmatter.related,
+      ...frontmatter.seeAlso
     ])
 
     forwardLinks.set(slug, allLinks)
   }
 
+  // Collect links whose target page does not exist
+  const brokenLinks: BrokenLink[] = []
+  for (const page of contentPages) {
+    const { slug, frontmatter, source, lineOffset, filePath } = page
+    const file = relative(process.cwd(), filePath)
+
+    for (const link of getPageLinks(page, pageIndex)) {
+      if (!pages.has(link.slug)) {
+        brokenLinks.push({ from: slug, to: link.slug, file, line: lineOffset + link.line })
+      }
+    }
+
+    for (const field of ['related', 'seeAlso'] as const) {
+      for (const target of frontmatter[field]) {
+        if (!pages.has(target)) {
+          brokenLinks.push({ from: slug, to: target, file, line: locateFrontmatterField(source.split('\n'), field, target) })
+        }
+      }
+    }
+  }
+
+  // Typed edges: inline links are merged per target with their count and sections
+  const edges: LinkEdge[] = []
+  for (const page of contentPages) {
+    const inline = new Map<string, LinkEdge>()
+
+    for (const link of getPageLinks(page, pageIndex)) {
+      const edge = inline.get(link.slug) || { from: page.slug, to: link.slug, type: 'inline', count: 0, sections: [], occurrences: [] }
+      edge.count++
+      edge.occurrences.push(link)
+      if (link.section && !edge.sections.some(s => s.id === link.section!.id)) {
+        edge.sections.push(link.section)
+      }
+      inline.set(link.slug, edge)
+    }
+
+    edges.push(...inline.values())
+
+    for (const type of ['related', 'seeAlso'] as const) {
+      for (const to of new Set(page.frontmatter[type])) {
+        edges.push({ from: page.slug, to, type, count: 1, sections: [], occurrences: [] })
+      }
+    }
+  }
+
   // Second pass: Build backlinks
   for (const [fromSlug, toSlugs] of forwardLinks.entries()) {
     for (const toSlug of toSlugs) {
@@ -102,7 +380,7 @@ export async function buildLinkGraph(): Promise<LinkGraph> {
     }
   }
 
-  return { pages, forwardLinks, backlinks }
+  return { pages, forwardLinks, backlinks, edges, brokenLinks }
 }
 
 /**
@@ -116,7 +394,48 @@ export function getBacklinks(graph: LinkGraph, slug: string): WikiPage[] {
 }
 
 /**
- * Get related pages (forward links + seeAlso)
+ * Get backlinks for a page with the link types, sections and each mention in context
+ * Pages that only link from frontmatter have no sections or mentions
+ */
+export function getBacklinkDetails(graph: LinkGraph, slug: string): BacklinkDetail[] {
+  const details = new Map<string, BacklinkDetail>()
+
+  for (const page of getBacklinks(graph, slug)) {
+    details.set(page.slug, { page, types: [], count: 0, sections: [], mentions: [] })
+  }
+
+  for (const edge of graph.edges) {
+    const detail = edge.to === slug ? details.get(edge.from) : undefined
+    if (!detail) continue
+
+    detail.types.push(edge.type)
+    if (edge.type === 'inline') {
+      detail.count += edge.count
+      detail.sections.push(...edge.sections)
+      detail.mentions.push(...edge.occurrences)
+    }
+  }
+
+  return Array.from(details.values())
+}
+
+/**
+ * Get broken links grouped by source page
+ */
+export function getBrokenLinksBySource(graph: LinkGraph): Map<string, BrokenLink[]> {
+  const bySource = new Map<string, BrokenLink[]>()
+
+  for (const link of graph.brokenLinks) {
+    const links = bySource.get(link.from) || []
+    links.push(link)
+    bySource.set(link.from, links)
+  }
+
+  return bySource
+}
+
+/**
+ * Get related pages (forward links + seeAlso), most central first
  */
 export function getRelatedPages(graph: LinkGraph, slug: string): WikiPage[] {
   const page = graph.pages.get(slug)
@@ -127,18 +446,411 @@ export function getRelatedPages(graph: LinkGraph, slug: string): WikiPage[] {
     ...(page.seeAlso || [])
   ])
 
-  return Array.from(relatedSlugs)
+  const pages = Array.from(relatedSlugs)
     .map(s => graph.pages.get(s))
     .filter((p): p is WikiPage => p !== undefined)
+
+  return rankByCentrality(graph, pages)
 }
 
 /**
- * Get pages in the same category
+ * Get pages in the same category, most central first
  */
 export function getCategoryPages(graph: LinkGraph, slug: string): WikiPage[] {
   const page = graph.pages.get(slug)
   if (!page || !page.category) return []
 
-  return Array.from(graph.pages.values())
+  const pages = Array.from(graph.pages.values())
     .filter(p => p.category === page.category && p.slug !== slug)
+
+  return rankByCentrality(graph, pages)
+}
+
+/**
+ * Get the slugs within N hops of a page (links followed in both directions)
+ */
+export function getNeighborhood(graph: LinkGraph, slug: string, hops: number = 1): Set<string> {
+  if (!graph.pages.has(slug)) return new Set()
+
+  const visited = new Set([slug])
+  let frontier = [slug]
+
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = []
+
+    for (const current of frontier) {
+      const neighbors = [
+        ...(graph.forwardLinks.get(current) || []),
+        ...(graph.backlinks.get(current) || [])
+      ]
+
+      for (const neighbor of neighbors) {
+        if (!visited.has(neighbor) && graph.pages.has(neighbor)) {
+          visited.add(neighbor)
+          next.push(neighbor)
+        }
+      }
+    }
+
+    frontier = next
+  }
+
+  return visited
+}
+
+/**
+ * Convert the graph (or a subset of its pages) to plain serializable data
+ * Edges to missing pages are dropped
+ */
+export function toGraphData(graph: LinkGraph, slugs?: Set<string>): GraphData {
+  const include = (slug: string) => graph.pages.has(slug) && (!slugs || slugs.has(slug))
+
+  const nodes = Array.from(graph.pages.values())
+    .filter(page => include(page.slug))
+    .map(({ slug, title, collection, description, category, keywords }) => ({ slug, title, collection, description, category, keywords }))
+
+  const edges: GraphData['edges'] = []
+  for (const [from, toSet] of graph.forwardLinks.entries()) {
+    if (!include(from)) continue
+    for (const to of toSet) {
+      if (to !== from && include(to)) {
+        edges.push({ from, to })
+      }
+    }
+  }
+
+  return { nodes, edges }
+}
+
+// ---------------------------------------------------------------------------
+// Graph analysis
+// ---------------------------------------------------------------------------
+
+export interface PageCentrality {
+  slug: string
+  pageRank: number     // sums to 1 across all pages
+  betweenness: number  // normalized to 0..1
+}
+
+export interface KeywordCommunity {
+  label: string        // most common keyword among the members
+  pages: string[]
+  keywords: string[]   // keywords shared by at least two members
+}
+
+export interface GraphAnalysis {
+  orphans: string[]
+  deadEnds: string[]
+  centrality: PageCentrality[]   // highest PageRank first
+  components: string[][]         // largest first
+  communities: KeywordCommunity[]
+}
+
+// Centrality is recomputed only when buildLinkGraph returns a new graph
+const centralityCache = new WeakMap<LinkGraph, Map<string, PageCentrality>>()
+
+/**
+ * Links between existing pages only (no self-links, no broken links)
+ */
+function getPageEdges(graph: LinkGraph): Map<string, string[]> {
+  const edges = new Map<string, string[]>()
+
+  for (const slug of graph.pages.keys()) {
+    const targets = [...(graph.forwardLinks.get(slug) || [])]
+      .filter(to => to !== slug && graph.pages.has(to))
+    edges.set(slug, targets)
+  }
+
+  return edges
+}
+
+/**
+ * Get pages that no other page links to
+ */
+export function getOrphanPages(graph: LinkGraph): string[] {
+  const linked = new Set<string>()
+  for (const targets of getPageEdges(graph).values()) {
+    targets.forEach(to => linked.add(to))
+  }
+
+  return [...graph.pages.keys()].filter(slug => !linked.has(slug)).sort()
+}
+
+/**
+ * Get pages that link to no other existing page
+ */
+export function getDeadEndPages(graph: LinkGraph): string[] {
+  return [...getPageEdges(graph)]
+    .filter(([, targets]) => targets.length === 0)
+    .map(([slug]) => slug)
+    .sort()
+}
+
+/**
+ * PageRank over page-to-page links
+ * Dead-end pages spread their rank evenly over every page
+ */
+export function computePageRank(
+  graph: LinkGraph,
+  { damping = 0.85, iterations = 100, tolerance = 1e-8 } = {}
+): Map<string, number> {
+  const edges = getPageEdges(graph)
+  const slugs = [...edges.keys()]
+  const n = slugs.length
+  let ranks = new Map(slugs.map(slug => [slug, 1 / n]))
+  if (n === 0) return ranks
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const danglingRank = slugs
+      .filter(slug => edges.get(slug)!.length === 0)
+      .reduce((sum, slug) => sum + ranks.get(slug)!, 0)
+
+    const base = (1 - damping) / n + (damping * danglingRank) / n
+    const next = new Map(slugs.map(slug => [slug, base]))
+
+    for (const [from, targets] of edges) {
+      const share = (damping * ranks.get(from)!) / targets.length
+      for (const to of targets) {
+        next.set(to, next.get(to)! + share)
+      }
+    }
+
+    const delta = slugs.reduce((sum, slug) => sum + Math.abs(next.get(slug)! - ranks.get(slug)!), 0)
+    ranks = next
+    if (delta < tolerance) break
+  }
+
+  return ranks
+}
+
+/**
+ * Betweenness centrality (Brandes' algorithm on the directed link graph)
+ * Normalized by (n - 1)(n - 2), so 1 means every shortest path passes through the page
+ */
+export function computeBetweenness(graph: LinkGraph): Map<string, number> {
+  const edges = getPageEdges(graph)
+  const slugs = [...edges.keys()]
+  const scores = new Map(slugs.map(slug => [slug, 0]))
+
+  for (const source of slugs) {
+    const stack: string[] = []
+    const predecessors = new Map<string, string[]>(slugs.map(slug => [slug, []]))
+    const paths = new Map(slugs.map(slug => [slug, 0]))
+    const distance = new Map(slugs.map(slug => [slug, -1]))
+    paths.set(source, 1)
+    distance.set(source, 0)
+
+    // Breadth-first search counting shortest paths
+    const queue = [source]
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      stack.push(current)
+
+      for (const next of edges.get(current)!) {
+        if (distance.get(next)! < 0) {
+          distance.set(next, distance.get(current)! + 1)
+          queue.push(next)
+        }
+        if (distance.get(next) === distance.get(current)! + 1) {
+          paths.set(next, paths.get(next)! + paths.get(current)!)
+          predecessors.get(next)!.push(current)
+        }
+      }
+    }
+
+    // Accumulate dependencies in reverse BFS order
+    const dependency = new Map(slugs.map(slug => [slug, 0]))
+    while (stack.length > 0) {
+      const current = stack.pop()!
+      for (const previous of predecessors.get(current)!) {
+        const share = (paths.get(previous)! / paths.get(current)!) * (1 + dependency.get(current)!)
+        dependency.set(previous, dependency.get(previous)! + share)
+      }
+      if (current !== source) {
+        scores.set(current, scores.get(current)! + dependency.get(current)!)
+      }
+    }
+  }
+
+  const n = slugs.length
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0
+  for (const [slug, score] of scores) {
+    scores.set(slug, score * scale)
+  }
+
+  return scores
+}
+
+/**
+ * Get PageRank and betweenness for every page (cached per graph)
+ */
+export function getPageCentrality(graph: LinkGraph): Map<string, PageCentrality> {
+  const cached = centralityCache.get(graph)
+  if (cached) return cached
+
+  const pageRank = computePageRank(graph)
+  const betweenness = computeBetweenness(graph)
+
+  const centrality = new Map<string, PageCentrality>()
+  for (const slug of graph.pages.keys()) {
+    centrality.set(slug, {
+      slug,
+      pageRank: pageRank.get(slug) || 0,
+      betweenness: betweenness.get(slug) || 0
+    })
+  }
+
+  centralityCache.set(graph, centrality)
+  return centrality
+}
+
+/**
+ * Sort pages by PageRank (highest first), then title
+ */
+export function rankByCentrality(graph: LinkGraph, pages: WikiPage[]): WikiPage[] {
+  const centrality = getPageCentrality(graph)
+  const rank = (page: WikiPage) => centrality.get(page.slug)?.pageRank || 0
+
+  return [...pages].sort((a, b) => rank(b) - rank(a) || a.title.localeCompare(b.title))
+}
+
+/**
+ * Get groups of pages connected by links in either direction (largest first)
+ */
+export function getConnectedComponents(graph: LinkGraph): string[][] {
+  const neighbors = new Map<string, Set<string>>([...graph.pages.keys()].map(slug => [slug, new Set()]))
+  for (const [from, targets] of getPageEdges(graph)) {
+    for (const to of targets) {
+      neighbors.get(from)!.add(to)
+      neighbors.get(to)!.add(from)
+    }
+  }
+
+  const visited = new Set<string>()
+  const components: string[][] = []
+
+  for (const start of [...neighbors.keys()].sort()) {
+    if (visited.has(start)) continue
+
+    const component: string[] = []
+    const stack = [start]
+    visited.add(start)
+
+    while (stack.length > 0) {
+      const current = stack.pop()!
+      component.push(current)
+      for (const next of neighbors.get(current)!) {
+        if (!visited.has(next)) {
+          visited.add(next)
+          stack.push(next)
+        }
+      }
+    }
+
+    components.push(component.sort())
+  }
+
+  return components.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]))
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase()
+}
+
+/**
+ * Cluster pages into communities by shared keywords
+ *
+ * Label propagation over a keyword-similarity graph: pages are connected when
+ * they share a keyword, weighted by how many they share. Deterministic (pages
+ * are visited in slug order, ties keep the current label or take the smallest).
+ * Pages without shared keywords end up in single-page communities.
+ */
+export function clusterByKeywords(graph: LinkGraph, maxIterations: number = 20): KeywordCommunity[] {
+  const slugs = [...graph.pages.keys()].sort()
+  const keywords = new Map(slugs.map(slug => [
+    slug,
+    new Set((graph.pages.get(slug)!.keywords || []).map(normalizeKeyword).filter(Boolean))
+  ]))
+
+  // Pairwise shared-keyword weights
+  const weights = new Map<string, Map<string, number>>(slugs.map(slug => [slug, new Map()]))
+  for (let i = 0; i < slugs.length; i++) {
+    for (let j = i + 1; j < slugs.length; j++) {
+      const a = keywords.get(slugs[i])!
+      const b = keywords.get(slugs[j])!
+      const shared = [...a].filter(keyword => b.has(keyword)).length
+      if (shared > 0) {
+        weights.get(slugs[i])!.set(slugs[j], shared)
+        weights.get(slugs[j])!.set(slugs[i], shared)
+      }
+    }
+  }
+
+  const labels = new Map(slugs.map(slug => [slug, slug]))
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let changed = false
+
+    for (const slug of slugs) {
+      const scores = new Map<string, number>()
+      for (const [neighbor, weight] of weights.get(slug)!) {
+        const label = labels.get(neighbor)!
+        scores.set(label, (scores.get(label) || 0) + weight)
+      }
+      if (scores.size === 0) continue
+
+      const best = Math.max(...scores.values())
+      const current = labels.get(slug)!
+      const candidates = [...scores].filter(([, score]) => score === best).map(([label]) => label).sort()
+      const label = candidates.includes(current) ? current : candidates[0]
+
+      if (label !== current) {
+        labels.set(slug, label)
+        changed = true
+      }
+    }
+
+    if (!changed) break
+  }
+
+  const groups = new Map<string, string[]>()
+  for (const slug of slugs) {
+    const members = groups.get(labels.get(slug)!) || []
+    members.push(slug)
+    groups.set(labels.get(slug)!, members)
+  }
+
+  const communities = [...groups.values()].map(pages => {
+    const counts = new Map<string, number>()
+    for (const slug of pages) {
+      keywords.get(slug)!.forEach(keyword => counts.set(keyword, (counts.get(keyword) || 0) + 1))
+    }
+
+    const ranked = [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    const shared = ranked.filter(([, count]) => count > 1).map(([keyword]) => keyword)
+
+    return {
+      label: ranked[0]?.[0] || graph.pages.get(pages[0])!.title,
+      pages,
+      keywords: shared
+    }
+  })
+
+  return communities.sort((a, b) => b.pages.length - a.pages.length || a.label.localeCompare(b.label))
+}
+
+/**
+ * Run every analysis over the graph
+ */
+export function analyzeGraph(graph: LinkGraph): GraphAnalysis {
+  const centrality = [...getPageCentrality(graph).values()]
+    .sort((a, b) => b.pageRank - a.pageRank || a.slug.localeCompare(b.slug))
+
+  return {
+    orphans: getOrphanPages(graph),
+    deadEnds: getDeadEndPages(graph),
+    centrality,
+    components: getConnectedComponents(graph),
+    communities: clusterByKeywords(graph)
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * Force-Directed Graph Layout
+ *
+ * Small Fruchterman-Reingold implementation for the knowledge-graph views.
+ * Runs synchronously and deterministically (same input -> same positions),
+ * so server and client renders agree and no external service is needed.
+ */
+
+export interface LayoutNode {
+  id: string
+}
+
+export interface LayoutEdge {
+  from: string
+  to: string
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface LayoutOptions {
+  width: number
+  height: number
+  iterations?: number
+  padding?: number
+}
+
+/**
+ * Compute node positions inside a width x height box
+ */
+export function computeForceLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  { width, height, iterations = 300, padding = 24 }: LayoutOptions
+): Map<string, Point> {
+  const positions = new Map<string, Point>()
+  if (nodes.length === 0) return positions
+
+  const innerWidth = Math.max(width - padding * 2, 1)
+  const innerHeight = Math.max(height - padding * 2, 1)
+  const k = Math.sqrt((innerWidth * innerHeight) / nodes.length) // ideal edge length
+
+  // Deterministic start: nodes evenly spaced on an ellipse
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length
+    positions.set(node.id, {
+      x: innerWidth / 2 + (innerWidth / 3) * Math.cos(angle),
+      y: innerHeight / 2 + (innerHeight / 3) * Math.sin(angle)
+    })
+  })
+
+  if (nodes.length === 1) {
+    positions.set(nodes[0].id, { x: width / 2, y: height / 2 })
+    return positions
+  }
+
+  const validEdges = edges.filter(e => e.from !== e.to && positions.has(e.from) && positions.has(e.to))
+  let temperature = innerWidth / 10
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const displacement = new Map<string, Point>(nodes.map(n => [n.id, { x: 0, y: 0 }]))
+
+    // Repulsion between every pair of nodes
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions.get(nodes[i].id)!
+        const b = positions.get(nodes[j].id)!
+        const dx = a.x - b.x || 0.01
+        const dy = a.y - b.y || 0.01
+        const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01)
+        const force = (k * k) / distance
+
+        const da = displacement.get(nodes[i].id)!
+        const db = displacement.get(nodes[j].id)!
+        da.x += (dx / distance) * force
+        da.y += (dy / distance) * force
+        db.x -= (dx / distance) * force
+        db.y -= (dy / distance) * force
+      }
+    }
+
+    // Attraction along edges
+    for (const edge of validEdges) {
+      const a = positions.get(edge.from)!
+      const b = positions.get(edge.to)!
+      const dx = a.x - b.x
+      const dy = a.y - b.y
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01)
+      const force = (distance * distance) / k
+
+      const da = displacement.get(edge.from)!
+      const db = displacement.get(edge.to)!
+      da.x -= (dx / distance) * force
+      da.y -= (dy / distance) * force
+      db.x += (dx / distance) * force
+      db.y += (dy / distance) * force
+    }
+
+    // Move nodes, limited by the current temperature, and keep them in bounds
+    for (const node of nodes) {
+      const position = positions.get(node.id)!
+      const d = displacement.get(node.id)!
+      const length = Math.max(Math.sqrt(d.x * d.x + d.y * d.y), 0.01)
+      const step = Math.min(length, temperature)
+
+      position.x = Math.min(innerWidth, Math.max(0, position.x + (d.x / length) * step))
+      position.y = Math.min(innerHeight, Math.max(0, position.y + (d.y / length) * step))
+    }
+
+    temperature *= 0.97 // Cool down
+  }
+
+  // Offset into the padded box
+  for (const position of positions.values()) {
+    position.x += padding
+    position.y += padding
+  }
+
+  return positions
+}
+
+const CATEGORY_COLORS = [
+  '#3b82f6', // blue-500
+  '#22c55e', // green-500
+  '#a855f7', // purple-500
+  '#f97316', // orange-500
+  '#ec4899', // pink-500
+  '#14b8a6', // teal-500
+  '#eab308', // yellow-500
+  '#ef4444'  // red-500
+]
+
+export const UNCATEGORIZED_COLOR = '#9ca3af' // gray-400
+
+/**
+ * Assign a stable color to each category (sorted alphabetically)
+ */
+export function getCategoryColors(categories: string[]): Map<string, string> {
+  const sorted = [...new Set(categories)].sort()
+  return new Map(sorted.map((category, i) => [category, CATEGORY_COLORS[i % CATEGORY_COLORS.length]]))
+}
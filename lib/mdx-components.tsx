@@ -1,7 +1,47 @@
-import { ClinicalWarning, Reflection, Citation, Callout } from '@/components/mdx'
+import { ClinicalWarning, Reflection, Citation, Callout, RedLink } from '@/components/mdx'
 import Link from 'next/link'
 import type { MDXComponents } from 'mdx/types'
 
+/**
+ * Extract the target slug from an internal wiki href
+ * e.g. "/wiki/preface#notes" -> "preface"
+ * Returns null for malformed escapes ("/wiki/100%"), which render as ordinary links.
+ */
+export function getWikiSlugFromHref(href: string): string | null {
+  const match = href.match(/^\/wiki\/([^/?#]+)/)
+  if (!match) return null
+
+  try {
+    return decodeURIComponent(match[1])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Link in rendered markdown: internal paths as Next Links, others in a new tab
+ */
+export function MdxLink({ href, children, ...props }: React.AnchorHTMLAttributes<HTMLAnchorElement>) {
+  if (href?.startsWith('/')) {
+    return (
+      <Link href={href} className="text-blue-600 dark:text-blue-400 hover:underline" {...props}>
+        {children}
+      </Link>
+    )
+  }
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-600 dark:text-blue-400 hover:underline"
+      {...props}
+    >
+      {children}
+    </a>
+  )
+}
+
 export const mdxComponents: MDXComponents = {
   // Custom MDX components
   ClinicalWarning,
@@ -25,26 +65,7 @@ export const mdxComponents: MDXComponents = {
       {children}
     </h3>
   ),
-  a: ({ href, children, ...props }) => {
-    if (href?.startsWith('/')) {
-      return (
-        <Link href={href} className="text-blue-600 dark:text-blue-400 hover:underline" {...props}>
-          {children}
-        </Link>
-      )
-    }
-    return (
-      <a
-        href={href}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="text-blue-600 dark:text-blue-400 hover:underline"
-        {...props}
-      >
-        {children}
-      </a>
-    )
-  },
+  a: MdxLink,
   blockquote: ({ children, ...props }) => (
     <blockquote
       className="border-l-4 border-gray-300 dark:border-gray-700 pl-4 italic my-4 text-gray-700 dark:text-gray-300"
@@ -70,3 +91,21 @@ export const mdxComponents: MDXComponents = {
     </pre>
   ),
 }
+
+/**
+ * Build MDX components for a page
+ *
+ * @param knownSlugs - Existing page slugs; links to other /wiki/ slugs render as red links
+ */
+export function createMdxComponents(knownSlugs?: Set<string>): MDXComponents {
+  return {
+    ...mdxComponents,
+    a: ({ href, children, ...props }) => {
+      const slug = href ? getWikiSlugFromHref(href) : null
+      if (href && slug && knownSlugs && !knownSlugs.has(slug)) {
+        return <RedLink href={href} slug={slug} {...props}>{children}</RedLink>
+      }
+      return <MdxLink href={href} {...props}>{children}</MdxLink>
+    }
+  }
+}
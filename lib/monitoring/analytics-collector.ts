@@ -4,7 +4,7 @@
  * Tracks user behavior patterns to identify content gaps:
  * - AI chat queries (confusion patterns)
  * - Section engagement (scroll depth, time spent)
- * - Failed searches (missing content)
+ * - Failed searches (missing content), from the search log (lib/search-log.ts)
  * - Page abandonment (low completion rates)
  *
  * Part of Layer 1: Perception & Monitoring
@@ -13,6 +13,7 @@
 import { readFile } from 'fs/promises'
 import { existsSync } from 'fs'
 import { join } from 'path'
+import { readSearchLog, type SearchLogEvent, type SearchLogSearch } from '../search-log'
 
 export interface ChatQuery {
   query: string
@@ -33,10 +34,16 @@ export interface SectionEngagement {
 export interface SearchPattern {
   query: string
   attempts: number
-  success_rate: number
+  success_rate: number  // share of attempts followed by a result click
   suggests: 'missing_content' | 'unclear_navigation' | 'terminology_gap'
 }
 
+/** Searches needed before a query counts as a pattern */
+export const MIN_SEARCH_ATTEMPTS = 2
+
+/** Click-through rate below which a query with results counts as failed */
+export const LOW_CTR_THRESHOLD = 0.2
+
 export interface UserBehaviorAnalysis {
   period: string
   section_engagement: Record<string, SectionEngagement>
@@ -150,6 +157,58 @@ function inferSuggestion(query: string, queries: ChatQuery[]): string {
   return 'general_confusion'
 }
 
+/**
+ * Find zero-result and low click-through queries in the search log
+ * - Nothing found on any attempt: the wiki lacks the topic (missing_content)
+ * - Results, but rarely opened or mostly found only after spelling
+ *   correction: the wiki uses other words or spellings for what readers
+ *   look for (terminology_gap)
+ * Partial queries replaced while typing ("gee" -> "geel") are ignored.
+ */
+export function analyzeSearchLog(
+  events: SearchLogEvent[],
+  minAttempts: number = MIN_SEARCH_ATTEMPTS,
+  lowCtrThreshold: number = LOW_CTR_THRESHOLD
+): SearchPattern[] {
+  const searches = events.filter((event): event is SearchLogSearch => event.type === 'search')
+  const clicked = new Set(events.filter(event => event.type === 'click').map(event => event.id))
+
+  const byId = new Map(searches.map(search => [search.id, search]))
+  const superseded = new Set<string>()
+  searches.forEach(search => {
+    const previous = search.refines ? byId.get(search.refines) : undefined
+    if (previous && search.query.startsWith(previous.query)) {
+      superseded.add(previous.id)
+    }
+  })
+
+  const queryStats = new Map<string, { attempts: number; clicks: number; found: number; corrected: number }>()
+  searches.forEach(search => {
+    if (superseded.has(search.id)) return
+
+    const stats = queryStats.get(search.query) || { attempts: 0, clicks: 0, found: 0, corrected: 0 }
+    stats.attempts++
+    if (clicked.has(search.id)) stats.clicks++
+    if (search.results > 0) stats.found++
+    if (search.corrected) stats.corrected++
+    queryStats.set(search.query, stats)
+  })
+
+  const patterns: SearchPattern[] = []
+  queryStats.forEach((stats, query) => {
+    if (stats.attempts < minAttempts) return
+
+    const successRate = stats.clicks / stats.attempts
+    if (stats.found === 0) {
+      patterns.push({ query, attempts: stats.attempts, success_rate: successRate, suggests: 'missing_content' })
+    } else if (successRate < lowCtrThreshold || stats.corrected > stats.attempts / 2) {
+      patterns.push({ query, attempts: stats.attempts, success_rate: successRate, suggests: 'terminology_gap' })
+    }
+  })
+
+  return patterns.sort((a, b) => b.attempts - a.attempts || a.success_rate - b.success_rate)
+}
+
 /**
  * Identify sections with high bounce rates (users leave quickly)
  */
@@ -282,26 +341,11 @@ export async function fetchVercelAnalytics(
     }
   ]
 
-  const mockSearches: SearchPattern[] = [
-    {
-      query: 'Hızır Elijah syncretism',
-      attempts: 5,
-      success_rate: 0.2,
-      suggests: 'missing_content'
-    },
-    {
-      query: 'Abdalan Rum practices',
-      attempts: 3,
-      success_rate: 0.33,
-      suggests: 'unclear_navigation'
-    }
-  ]
-
   return {
     period: `${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`,
     section_engagement: mockEngagement,
     chat_confusion_patterns: mockChatPatterns,
-    failed_searches: mockSearches,
+    failed_searches: [], // From the search log, see collectAnalytics
     high_bounce_sections: identifyHighBounceSections(mockEngagement, 0.5),
     low_completion_sections: identifyLowCompletionSections(mockEngagement, 0.5)
   }
@@ -350,6 +394,15 @@ export async function collectAnalytics(): Promise<UserBehaviorAnalysis> {
   // Fetch analytics data
   const analytics = await fetchVercelAnalytics(startDate, endDate)
 
+  // Failed searches come from the real search log
+  try {
+    const since = startDate.toISOString()
+    const events = await readSearchLog()
+    analytics.failed_searches = analyzeSearchLog(events.filter(event => event.at >= since))
+  } catch (error) {
+    console.warn('Could not load search log:', error)
+  }
+
   // Enhance with chat logs if available
   try {
     const chatLogs = await loadChatLogs()
@@ -370,13 +423,13 @@ export async function collectAnalytics(): Promise<UserBehaviorAnalysis> {
 export function mapAnalyticsToGaps(
   analytics: UserBehaviorAnalysis
 ): Array<{
-  type: 'missing_definition' | 'missing_comparison' | 'missing_content' | 'confusing_content'
+  type: 'missing_definition' | 'missing_comparison' | 'missing_content' | 'confusing_content' | 'terminology_gap'
   section: string
   evidence: string
   priority: number
 }> {
   const gaps: Array<{
-    type: 'missing_definition' | 'missing_comparison' | 'missing_content' | 'confusing_content'
+    type: 'missing_definition' | 'missing_comparison' | 'missing_content' | 'confusing_content' | 'terminology_gap'
     section: string
     evidence: string
     priority: number
@@ -415,10 +468,10 @@ export function mapAnalyticsToGaps(
     }
   })
 
-  // Failed searches → missing content
+  // Failed searches → missing content, or content under other terms
   analytics.failed_searches.forEach(search => {
     gaps.push({
-      type: 'missing_content',
+      type: search.suggests === 'terminology_gap' ? 'terminology_gap' : 'missing_content',
       section: 'unknown',
       evidence: `Search "${search.query}" failed ${search.attempts} times (${(search.success_rate * 100).toFixed(0)}% success)`,
       priority: search.attempts
@@ -0,0 +1,261 @@
+/**
+ * Passage Index
+ *
+ * Retrieval for the AI chat: every chapter and paper section is split into
+ * passages at its `##`/`###` headings (long sections further at paragraph
+ * breaks), and the passages are ranked for a question with BM25, so answers
+ * can draw on the whole book rather than the current page alone.
+ * - Passage ids are `slug:n` (nth passage of the page); answers cite them
+ *   by page and section instead (lib/citations.ts)
+ * - Query terms are expanded with the synonym table (lib/synonyms.ts)
+ * - Plain JSON, so `npm run build:passages` can write it at build time
+ *   (.data/passage-index.json, PASSAGE_INDEX_PATH overrides); without that
+ *   file it is built from the content on first use, like the search index
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { createCachedLoader, samePageHashes } from './cached-loader'
+import { loadAllPages, type Collection, type ContentPage } from './content'
+import { tokenize } from './search-index'
+import { loadSynonyms, type SynonymGroup } from './synonyms'
+import { headingId } from './toc'
+
+export interface Passage {
+  id: string                // `${slug}:${n}`
+  slug: string
+  collection: Collection
+  title: string             // page title
+  heading: string | null    // section heading, null before the first one
+  anchor: string | null     // heading id for /wiki/slug#anchor links
+  text: string              // markdown of the passage, heading excluded
+}
+
+export interface PassageIndex {
+  version: number
+  passages: Passage[]
+  lengths: number[]                                // weighted token count per passage
+  averageLength: number
+  postings: Record<string, Array<[number, number]>> // term -> [passage position, weighted occurrences]
+  hashes: Record<string, string>                   // page content hashes the index was built from
+}
+
+export interface RetrievedPassage {
+  passage: Passage
+  score: number
+}
+
+const INDEX_VERSION = 1
+
+// Passages grow paragraph by paragraph up to this many words
+const MAX_PASSAGE_WORDS = 200
+
+// Sections shorter than this ("Content to be added") carry nothing to retrieve
+const MIN_PASSAGE_WORDS = 12
+
+// Heading words count this many times as much as body words
+const HEADING_BOOST = 2
+
+// BM25 parameters, as in lib/search-index.ts
+const K1 = 1.2
+const B = 0.75
+
+export const DEFAULT_PASSAGE_LIMIT = 5
+const MAX_PASSAGES_PER_PAGE = 2
+
+// Passages of the page being read rank a little higher
+const CURRENT_PAGE_BOOST = 1.2
+
+/**
+ * File the prebuilt index is written to and read from
+ */
+export function getPassageIndexPath(): string {
+  return process.env.PASSAGE_INDEX_PATH || join(process.cwd(), '.data', 'passage-index.json')
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Split a page into passages at its section headings
+ */
+export function chunkPage(page: ContentPage): Passage[] {
+  const sections: Array<{ heading: string | null; lines: string[] }> = [{ heading: null, lines: [] }]
+
+  for (const line of page.content.split('\n')) {
+    const heading = line.match(/^#{2,3}\s+(.+?)\s*#*$/)
+    if (heading) {
+      sections.push({ heading: heading[1], lines: [] })
+    } else if (!/^#\s/.test(line)) {
+      // The page title heading is already in `title`
+      sections[sections.length - 1].lines.push(line)
+    }
+  }
+
+  const passages: Passage[] = []
+  for (const { heading, lines } of sections) {
+    const paragraphs = lines.join('\n').split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+
+    let current: string[] = []
+    const flush = () => {
+      const text = current.join('\n\n')
+      current = []
+      if (countWords(text) < MIN_PASSAGE_WORDS) return
+
+      passages.push({
+        id: `${page.slug}:${passages.length + 1}`,
+        slug: page.slug,
+        collection: page.collection,
+        title: page.frontmatter.title,
+        heading,
+        anchor: heading ? headingId(heading) : null,
+        text
+      })
+    }
+
+    for (const paragraph of paragraphs) {
+      if (current.length > 0 && countWords([...current, paragraph].join(' ')) > MAX_PASSAGE_WORDS) flush()
+      current.push(paragraph)
+    }
+    flush()
+  }
+
+  return passages
+}
+
+/**
+ * Build the passage index for a set of pages
+ */
+export function buildPassageIndex(pages: ContentPage[]): PassageIndex {
+  const passages = pages.flatMap(chunkPage)
+  const postings = new Map<string, Array<[number, number]>>()
+  const lengths: number[] = []
+
+  passages.forEach((passage, position) => {
+    const counts = new Map<string, number>()
+    const add = (terms: string[], weight: number) => terms.forEach(term => counts.set(term, (counts.get(term) || 0) + weight))
+
+    add(tokenize(`${passage.title} ${passage.heading || ''}`), HEADING_BOOST)
+    add(tokenize(passage.text), 1)
+
+    let length = 0
+    for (const [term, count] of counts) {
+      const termPostings = postings.get(term) || []
+      termPostings.push([position, count])
+      postings.set(term, termPostings)
+      length += count
+    }
+    lengths.push(length)
+  })
+
+  return {
+    version: INDEX_VERSION,
+    passages,
+    lengths,
+    averageLength: lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0,
+    postings: Object.fromEntries(postings),
+    hashes: Object.fromEntries(pages.map(page => [page.slug, page.hash]))
+  }
+}
+
+/**
+ * The passages that best answer a question, best first
+ * At most two passages come from any one page, so answers can draw on
+ * several chapters.
+ */
+export function retrievePassages(
+  index: PassageIndex,
+  question: string,
+  { limit = DEFAULT_PASSAGE_LIMIT, slug, synonyms = [] }: { limit?: number; slug?: string; synonyms?: SynonymGroup[] } = {}
+): RetrievedPassage[] {
+  // Every spelling of a term counts as the term
+  const variants = synonyms.map(group => group.flatMap(spelling => tokenize(spelling)))
+  const terms = new Set(tokenize(question).flatMap(term => variants.find(variant => variant.includes(term)) || [term]))
+
+  const scores = new Map<number, number>()
+  const passageCount = index.passages.length
+
+  for (const term of terms) {
+    // Own keys only: "constructor" is a word too
+    const termPostings = Object.hasOwn(index.postings, term) ? index.postings[term] : undefined
+    if (!termPostings) continue
+
+    const idf = Math.log(1 + (passageCount - termPostings.length + 0.5) / (termPostings.length + 0.5))
+    for (const [position, frequency] of termPostings) {
+      const normalization = K1 * (1 - B + B * (index.lengths[position] / (index.averageLength || 1)))
+      scores.set(position, (scores.get(position) || 0) + idf * ((frequency * (K1 + 1)) / (frequency + normalization)))
+    }
+  }
+
+  const ranked = [...scores]
+    .map(([position, score]) => {
+      const passage = index.passages[position]
+      return { passage, score: passage.slug === slug ? score * CURRENT_PAGE_BOOST : score }
+    })
+    .sort((a, b) => b.score - a.score || a.passage.id.localeCompare(b.passage.id))
+
+  const perPage = new Map<string, number>()
+  const results: RetrievedPassage[] = []
+  for (const result of ranked) {
+    const count = perPage.get(result.passage.slug) || 0
+    if (count >= MAX_PASSAGES_PER_PAGE) continue
+    perPage.set(result.passage.slug, count + 1)
+    results.push(result)
+    if (results.length >= limit) break
+  }
+  return results
+}
+
+/**
+ * Write the index for all pages to the prebuilt index file
+ */
+export async function writePassageIndex(): Promise<PassageIndex> {
+  const index = buildPassageIndex(await loadAllPages())
+  const path = getPassageIndexPath()
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(index), 'utf8')
+  return index
+}
+
+/**
+ * Read the prebuilt index; null when it is missing or from another version
+ */
+async function readPassageIndex(): Promise<PassageIndex | null> {
+  try {
+    const index = JSON.parse(await readFile(getPassageIndexPath(), 'utf8'))
+    return index?.version === INDEX_VERSION ? index : null
+  } catch {
+    return null
+  }
+}
+
+// Per-process index cache; deployments use the index written at build time
+const passageIndexLoader = createCachedLoader({
+  read: () => loadAllPages(),
+  unchanged: samePageHashes,
+  build: buildPassageIndex,
+  prebuilt: readPassageIndex
+})
+
+/**
+ * Get the passage index, loading or building it on first use
+ */
+export function getPassageIndex(): Promise<PassageIndex> {
+  return passageIndexLoader.load()
+}
+
+/**
+ * Drop the cached index (used by tests and content tooling)
+ */
+export function clearPassageIndexCache(): void {
+  passageIndexLoader.clear()
+}
+
+/**
+ * Retrieve passages for a question from the current index and synonym table
+ */
+export async function findPassages(question: string, options: { limit?: number; slug?: string } = {}): Promise<RetrievedPassage[]> {
+  const [index, synonyms] = await Promise.all([getPassageIndex(), loadSynonyms()])
+  return retrievePassages(index, question, { ...options, synonyms })
+}
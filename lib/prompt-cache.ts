@@ -12,9 +12,19 @@
  * Cache TTL: 5 minutes (automatic)
  * Expected hit rate: ~90% (same page, different questions)
  *
+ * Earlier turns of the conversation follow the cached prefix, so follow-up
+ * questions reuse it too; they are fitted to a token budget (fitHistory).
+ * Passages retrieved for the question (lib/passage-index.ts) come last,
+ * since they change with every question, under the markers answers cite
+ * them by (lib/citations.ts).
+ *
  * Savings: ~$60/month for 1000 users
  */
 
+import { estimateTokens } from './ai-router'
+import { citationKey } from './citations'
+import type { Passage } from './passage-index'
+
 export interface CachedMessage {
   role: 'system' | 'user' | 'assistant'
   content: string
@@ -23,6 +33,27 @@ export interface CachedMessage {
   }
 }
 
+/** A prior message of the conversation, as sent by the chat panel */
+export interface ChatTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+/** Text the reader selected on the page to ask about */
+export interface TextSelection {
+  text: string
+  heading?: string          // section the text was selected in
+}
+
+export const MAX_HISTORY_TURNS = 40
+export const MAX_TURN_LENGTH = 10000        // characters
+export const HISTORY_TOKEN_BUDGET = 1500
+const SUMMARY_TOKEN_RESERVE = 200
+const SUMMARY_MAX_QUESTIONS = 5
+const SUMMARY_QUESTION_LENGTH = 120
+export const MAX_SELECTION_LENGTH = 5000    // characters
+export const MAX_SELECTION_HEADING_LENGTH = 200
+
 /**
  * System prompt for Sacred Madness Wiki
  * This will be cached and reused across requests
@@ -54,13 +85,17 @@ Methodological approach: Practice-centered analysis, positionality-grounded rese
  *
  * @param userQuery - The user's question
  * @param pageContext - Optional page-specific content (will be cached)
- * @param selectedText - Optional selected text for context
+ * @param selection - Optional selected text (and its section) for context
+ * @param history - Earlier turns of the conversation, oldest first
+ * @param passages - Passages retrieved for the question, best first
  * @returns Messages array with cache control directives
  */
 export function buildCachedMessages(
   userQuery: string,
   pageContext?: string,
-  selectedText?: string
+  selection?: TextSelection,
+  history: ChatTurn[] = [],
+  passages: Passage[] = []
 ): CachedMessage[] {
   const messages: CachedMessage[] = []
 
@@ -81,11 +116,23 @@ export function buildCachedMessages(
     })
   }
 
+  // Conversation so far (after the cached prefix, so it never invalidates it)
+  messages.push(...fitHistory(history))
+
+  // Retrieved passages (not cached - change per query)
+  if (passages.length > 0) {
+    messages.push({
+      role: 'user',
+      content: formatPassages(passages)
+    })
+  }
+
   // Selected text context (not cached - changes per query)
-  if (selectedText) {
+  if (selection?.text) {
+    const source = selection.heading ? ` (from the section "${selection.heading}")` : ''
     messages.push({
       role: 'user',
-      content: `Selected Text for Discussion:\n"${selectedText}"\n\nQuestion about this selection:`
+      content: `Selected Text for Discussion${source}:\n"${selection.text}"\n\nQuestion about this selection:`
     })
   }
 
@@ -98,6 +145,66 @@ export function buildCachedMessages(
   return messages
 }
 
+/**
+ * Check that a value is a well-formed conversation turn
+ */
+export function isChatTurn(value: unknown): value is ChatTurn {
+  const turn = value as ChatTurn
+  return typeof turn === 'object' && turn !== null &&
+    (turn.role === 'user' || turn.role === 'assistant') &&
+    typeof turn.content === 'string' && turn.content.length <= MAX_TURN_LENGTH
+}
+
+/**
+ * Fit earlier turns into a token budget
+ * The most recent turns are kept whole, starting with a question; older ones
+ * are replaced by a short note listing the questions asked, so follow-ups
+ * can still refer back to them.
+ */
+export function fitHistory(history: ChatTurn[], budgetTokens: number = HISTORY_TOKEN_BUDGET): CachedMessage[] {
+  const turns = history.filter(turn => turn.content.trim())
+  const total = turns.reduce((sum, turn) => sum + estimateTokens(turn.content), 0)
+
+  // Keep whole turns from the end while they fit, leaving room for a summary
+  // when some must go
+  let start = turns.length
+  let used = total <= budgetTokens ? 0 : SUMMARY_TOKEN_RESERVE
+  while (start > 0 && used + estimateTokens(turns[start - 1].content) <= budgetTokens) {
+    used += estimateTokens(turns[--start].content)
+  }
+  while (start < turns.length && turns[start].role !== 'user') start++
+
+  const earlierQuestions = turns
+    .slice(0, start)
+    .filter(turn => turn.role === 'user')
+    .slice(-SUMMARY_MAX_QUESTIONS)
+    .map(turn => `- ${truncateContext(turn.content.replace(/\s+/g, ' ').trim(), SUMMARY_QUESTION_LENGTH)}`)
+
+  const summary: CachedMessage[] = earlierQuestions.length > 0
+    ? [{ role: 'user', content: `Earlier in this conversation I asked:\n${earlierQuestions.join('\n')}` }]
+    : []
+
+  return [...summary, ...turns.slice(start).map(({ role, content }) => ({ role, content }))]
+}
+
+/**
+ * Present retrieved passages to the model, each under its citation marker
+ */
+export function formatPassages(passages: Passage[]): string {
+  const blocks = passages.map(passage => {
+    const source = passage.heading ? `${passage.title} › ${passage.heading}` : passage.title
+    return `[${citationKey(passage)}] ${source}\n${passage.text}`
+  })
+
+  return [
+    'Passages from the wiki that may answer the next question. Base your answer on them where they are relevant.',
+    `Cite the passage behind each claim with its marker exactly as given, e.g. [${citationKey(passages[0])}], and cite no other sources.`,
+    'If the passages do not answer the question, say so rather than answering from elsewhere.',
+    '',
+    blocks.join('\n\n')
+  ].join('\n')
+}
+
 /**
  * Truncate context to fit within token limit
  * Ensures we don't exceed cache size limits
@@ -220,14 +327,16 @@ export function buildCachedRequest(
   userQuery: string,
   maxTokens: number,
   pageContext?: string,
-  selectedText?: string
+  selection?: TextSelection,
+  history: ChatTurn[] = [],
+  passages: Passage[] = []
 ): {
   model: string
   messages: unknown[]
   max_tokens: number
   temperature?: number
 } {
-  const messages = buildCachedMessages(userQuery, pageContext, selectedText)
+  const messages = buildCachedMessages(userQuery, pageContext, selection, history, passages)
 
   return {
     model,
@@ -0,0 +1,146 @@
+/**
+ * Search Client
+ *
+ * Browser-side access to /api/search for the command palette and the
+ * /search page: response types, the request itself, click reporting and the
+ * list of recent searches kept in localStorage.
+ */
+
+import type { Collection } from './content'
+import type { SearchFacets, SearchSort } from './search-index'
+import type { SearchSnippet } from './search-snippets'
+
+export interface SearchApiSnippet extends SearchSnippet {
+  url: string
+}
+
+export interface SearchApiResult {
+  slug: string
+  collection: Collection
+  title: string
+  description: string
+  category: string | null
+  keywords: string[]
+  wordCount: number
+  score: number
+  snippets: SearchApiSnippet[]
+  url: string
+}
+
+export interface SearchApiResponse {
+  searchId: string | null   // null for pages after the first
+  query: string
+  sanitizedQuery: string
+  total: number
+  count: number
+  page: number
+  pageSize: number
+  totalPages: number
+  sort: SearchSort
+  collection: Collection | null
+  corrections: Array<{ from: string; to: string }>
+  facets: SearchFacets
+  results: SearchApiResult[]
+}
+
+export interface SearchRequest {
+  query: string
+  page?: number
+  pageSize?: number
+  sort?: SearchSort
+  refines?: string | null   // searchId of the query this one edits
+}
+
+export const MIN_QUERY_LENGTH = 2
+
+export const COLLECTION_LABELS: Record<Collection, string> = {
+  chapters: 'Chapters',
+  papers: 'Research paper'
+}
+
+const RECENT_SEARCHES_KEY = 'sacred-madness:recent-searches'
+const MAX_RECENT_SEARCHES = 5
+
+/**
+ * Query the search API; rejects with the API's error message on failure
+ */
+export async function fetchSearchResults(
+  { query, page, pageSize, sort, refines }: SearchRequest,
+  signal?: AbortSignal
+): Promise<SearchApiResponse> {
+  const params = new URLSearchParams({ q: query })
+  if (page) params.set('page', String(page))
+  if (pageSize) params.set('pageSize', String(pageSize))
+  if (sort) params.set('sort', sort)
+  if (refines) params.set('refines', refines)
+
+  const response = await fetch(`/api/search?${params}`, { signal })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Search failed')
+  }
+  return data
+}
+
+/**
+ * Report that a search result was opened (best effort)
+ * Uses sendBeacon so the report survives the navigation it triggers
+ */
+export function sendSearchClick(searchId: string | null, slug: string, position: number): void {
+  if (!searchId) return
+
+  const body = JSON.stringify({ searchId, slug, position })
+  try {
+    if (navigator.sendBeacon?.('/api/search/click', body)) return
+    fetch('/api/search/click', { method: 'POST', body, keepalive: true }).catch(() => {})
+  } catch {
+    // Click reports only feed analytics; never block navigation
+  }
+}
+
+/**
+ * Path of the results page for a query
+ */
+export function searchPageHref(query: string, { page, sort }: Omit<SearchRequest, 'query'> = {}): string {
+  const params = new URLSearchParams({ q: query })
+  if (page && page > 1) params.set('page', String(page))
+  if (sort && sort !== 'relevance') params.set('sort', sort)
+  return `/search?${params}`
+}
+
+/**
+ * Recent searches, newest first
+ */
+export function getRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]')
+    return Array.isArray(stored) ? stored.filter(item => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Remember a search, moving it to the front if it was already there
+ */
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim()
+  if (trimmed.length < MIN_QUERY_LENGTH) return getRecentSearches()
+
+  const recent = [trimmed, ...getRecentSearches().filter(item => item !== trimmed)].slice(0, MAX_RECENT_SEARCHES)
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent))
+  } catch {
+    // Storage may be full or disabled (private browsing); recent searches are optional
+  }
+  return recent
+}
+
+export function clearRecentSearches(): void {
+  try {
+    localStorage.removeItem(RECENT_SEARCHES_KEY)
+  } catch {
+    // See addRecentSearch
+  }
+}
@@ -0,0 +1,528 @@
+/**
+ * Full-Text Search Index
+ *
+ * Inverted index over every page (chapters and the research paper) with
+ * BM25F ranking:
+ * - Text is folded to lowercase ASCII ("Güneş" -> "gunes", "Hızır" -> "hizir")
+ *   and stemmed, so "mystics" finds "mysticism"
+ * - Title, keyword and description matches count more than body text
+ * - Query terms missing from the index are corrected against the index
+ *   vocabulary with fuse.js ("majdub" -> "majdhub")
+ * - Queries may use phrases, AND/OR/NOT, prefixes and field filters
+ *   (syntax in lib/search-query.ts)
+ * - Terms are expanded with their variant spellings from the synonym table
+ *   (lib/synonyms.ts), so "majzub" also finds "majdhub"
+ *
+ * Built once per process on first use, like the link graph; in development
+ * it is rebuilt only when a page's content hash changes (lib/cached-loader.ts).
+ */
+
+import Fuse from 'fuse.js'
+import { createCachedLoader, samePageHashes } from './cached-loader'
+import { loadAllPages, type Collection, type ContentPage } from './content'
+import { parseSearchQuery, type QueryField, type SearchQueryNode } from './search-query'
+import { stem } from './stemmer'
+import { loadSynonyms, type SynonymGroup } from './synonyms'
+
+export type SearchField = 'title' | 'keywords' | 'description' | 'content'
+
+/** Weight of a term occurrence in each field (BM25F) */
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 4,
+  keywords: 3,
+  description: 2,
+  content: 1
+}
+
+const SEARCH_FIELDS = Object.keys(FIELD_BOOSTS) as SearchField[]
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+// fuse.js score (0 = exact) below which a vocabulary term replaces a misspelled query term
+const FUZZY_THRESHOLD = 0.3
+
+// Shorter terms are too close to too many words to correct reliably
+const MIN_FUZZY_LENGTH = 5
+
+// Shorter prefixes ("a*") would match most of the vocabulary
+const MIN_PREFIX_LENGTH = 2
+
+// Keyword facets beyond this are dropped (categories are few enough to keep all)
+const MAX_KEYWORD_FACETS = 20
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'he', 'her', 'his', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that',
+  'the', 'their', 'them', 'they', 'this', 'to', 'was', 'were', 'which', 'who', 'will', 'with'
+])
+
+// Letters that do not decompose under NFKD
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ı': 'i',
+  'ß': 'ss',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ø': 'o',
+  'ł': 'l',
+  'đ': 'd',
+  'ð': 'd',
+  'þ': 'th'
+}
+
+/** Frontmatter and collection filters: matched, but not indexed or scored */
+type FilterField = 'category' | 'collection'
+
+export interface SearchDocument {
+  slug: string
+  collection: Collection
+  title: string
+  description: string
+  category: string | null
+  keywords: string[]
+  content: string
+  wordCount: number
+  length: number   // boosted token count across all fields
+  tokens: Record<SearchField | FilterField, string[]>   // for phrase and field matching
+}
+
+/** term -> slug -> occurrences per field */
+export type Postings = Map<string, Map<string, Record<SearchField, number>>>
+
+export interface SearchIndex {
+  documents: Map<string, SearchDocument>
+  postings: Postings
+  averageLength: number
+  vocabulary: Fuse<string>
+  synonyms: Map<string, string[][]>   // index terms of a spelling -> index terms of every spelling
+  preferredForms: Map<string, string>  // folded spelling -> preferred spelling
+}
+
+export interface SearchResult {
+  slug: string
+  collection: Collection
+  title: string
+  description: string
+  category: string | null
+  keywords: string[]
+  wordCount: number
+  score: number
+  terms: string[]   // index terms that matched
+}
+
+/** relevance: highest score first; title: A-Z; words: longest page first */
+export type SearchSort = 'relevance' | 'title' | 'words'
+
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'title', 'words']
+
+export interface SearchFacet {
+  value: string
+  count: number
+}
+
+export interface SearchFacets {
+  collections: SearchFacet[]
+  categories: SearchFacet[]
+  keywords: SearchFacet[]
+}
+
+export interface SearchOutcome {
+  terms: string[]                                   // index terms searched for
+  corrections: Array<{ from: string; to: string }>  // fuzzy replacements for unknown terms
+  results: SearchResult[]
+}
+
+/**
+ * Fold text to lowercase ASCII: strip diacritics and map special letters
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[ıßæœøłđðþ]/g, letter => SPECIAL_LETTERS[letter])
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+}
+
+/**
+ * Split text into stemmed index terms (stopwords and single letters dropped)
+ */
+export function tokenize(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem)
+}
+
+function emptyFieldCounts(): Record<SearchField, number> {
+  return { title: 0, keywords: 0, description: 0, content: 0 }
+}
+
+/**
+ * Map each spelling in the synonym table, as index terms, to all spellings
+ * of its group; spellings that are only stopwords are dropped
+ */
+function buildSynonymIndex(groups: SynonymGroup[]): Pick<SearchIndex, 'synonyms' | 'preferredForms'> {
+  const synonyms = new Map<string, string[][]>()
+  const preferredForms = new Map<string, string>()
+
+  for (const group of groups) {
+    const variants = [...new Map(
+      group.map(spelling => tokenize(spelling)).filter(terms => terms.length > 0).map(terms => [terms.join(' '), terms])
+    ).values()]
+
+    variants.forEach(terms => synonyms.set(terms.join(' '), variants))
+    group.forEach(spelling => preferredForms.set(normalizeSearchText(spelling), group[0]))
+  }
+
+  return { synonyms, preferredForms }
+}
+
+/**
+ * Build the index from loaded pages and the synonym table
+ */
+export function buildSearchIndex(pages: ContentPage[], synonyms: SynonymGroup[] = []): SearchIndex {
+  const documents = new Map<string, SearchDocument>()
+  const postings: Postings = new Map()
+  let totalLength = 0
+
+  for (const page of pages) {
+    const { slug, collection, frontmatter, content } = page
+    const fields: Record<SearchField, string> = {
+      title: frontmatter.title,
+      keywords: frontmatter.keywords.join(' '),
+      description: frontmatter.description || '',
+      content
+    }
+
+    let length = 0
+    const tokens = {
+      category: tokenize(frontmatter.category || ''),
+      collection: tokenize(collection)
+    } as SearchDocument['tokens']
+    for (const field of SEARCH_FIELDS) {
+      tokens[field] = tokenize(fields[field])
+      length += tokens[field].length * FIELD_BOOSTS[field]
+
+      for (const term of tokens[field]) {
+        let termPostings = postings.get(term)
+        if (!termPostings) {
+          termPostings = new Map()
+          postings.set(term, termPostings)
+        }
+
+        const counts = termPostings.get(slug) || emptyFieldCounts()
+        counts[field]++
+        termPostings.set(slug, counts)
+      }
+    }
+
+    documents.set(slug, {
+      slug,
+      collection,
+      title: frontmatter.title,
+      description: frontmatter.description || '',
+      category: frontmatter.category || null,
+      keywords: frontmatter.keywords,
+      content,
+      wordCount: content.split(/\s+/).filter(Boolean).length,
+      length,
+      tokens
+    })
+    totalLength += length
+  }
+
+  return {
+    documents,
+    postings,
+    averageLength: documents.size > 0 ? totalLength / documents.size : 0,
+    vocabulary: new Fuse([...postings.keys()], { includeScore: true, threshold: FUZZY_THRESHOLD }),
+    ...buildSynonymIndex(synonyms)
+  }
+}
+
+/**
+ * Levenshtein distance between two terms
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Replace query terms that are not in the index with the closest vocabulary term
+ */
+function correctTerms(index: SearchIndex, terms: string[]): SearchOutcome['corrections'] {
+  const corrections: SearchOutcome['corrections'] = []
+
+  for (const term of terms) {
+    if (index.postings.has(term) || term.length < MIN_FUZZY_LENGTH) continue
+
+    // fuse.js also scores substring matches well ("gune" ~ "unexpect"), so
+    // candidates must be within a few edits of the whole term
+    const maxEdits = Math.max(1, Math.floor(term.length / 4))
+    const best = index.vocabulary.search(term, { limit: 10 }).find(({ item, score }) =>
+      (score ?? 1) <= FUZZY_THRESHOLD && editDistance(term, item) <= maxEdits
+    )
+    if (best) {
+      corrections.push({ from: term, to: best.item })
+    }
+  }
+
+  return corrections
+}
+
+/**
+ * BM25F score of every document containing at least one term
+ */
+function scoreDocuments(index: SearchIndex, terms: string[]): Map<string, { score: number; terms: string[] }> {
+  const scores = new Map<string, { score: number; terms: string[] }>()
+  const documentCount = index.documents.size
+
+  for (const term of new Set(terms)) {
+    const termPostings = index.postings.get(term)
+    if (!termPostings) continue
+
+    const idf = Math.log(1 + (documentCount - termPostings.size + 0.5) / (termPostings.size + 0.5))
+
+    for (const [slug, counts] of termPostings) {
+      const document = index.documents.get(slug)!
+      const frequency = SEARCH_FIELDS.reduce((sum, field) => sum + counts[field] * FIELD_BOOSTS[field], 0)
+      const normalization = K1 * (1 - B + B * (document.length / (index.averageLength || 1)))
+      const termScore = idf * ((frequency * (K1 + 1)) / (frequency + normalization))
+
+      const entry = scores.get(slug) || { score: 0, terms: [] }
+      entry.score += termScore
+      entry.terms.push(term)
+      scores.set(slug, entry)
+    }
+  }
+
+  return scores
+}
+
+const FIELD_TOKENS: Record<QueryField, SearchField | FilterField> = {
+  title: 'title',
+  keyword: 'keywords',
+  category: 'category',
+  collection: 'collection'
+}
+
+/** Whether matches in a field should count towards the score */
+function isScoredField(field: QueryField | undefined): boolean {
+  return field !== 'category' && field !== 'collection'
+}
+
+/** Whether terms occur consecutively in a token list */
+function containsSequence(tokens: string[], terms: string[]): boolean {
+  for (let i = 0; i + terms.length <= tokens.length; i++) {
+    if (terms.every((term, offset) => tokens[i + offset] === term)) return true
+  }
+  return false
+}
+
+interface QueryMatch {
+  matches: Set<string> | null
+  terms: string[]                            // terms of positive clauses, for scoring
+  corrections: SearchOutcome['corrections']
+}
+
+/**
+ * Evaluate a parsed query against the index
+ * Clauses with nothing to search for (only stopwords) match as null and are
+ * left out of AND/OR rather than matching every or no page.
+ */
+function evaluateQuery(index: SearchIndex, query: SearchQueryNode): QueryMatch {
+  const terms = new Set<string>()
+  const corrections: SearchOutcome['corrections'] = []
+
+  // Every spelling of a term or phrase in the synonym table
+  const variantsOf = (queryTerms: string[]) => index.synonyms.get(queryTerms.join(' ')) || [queryTerms]
+
+  // Pages containing the terms, or one of their variant spellings, in
+  // sequence (one term: anywhere)
+  const matchTerms = (queryTerms: string[], field: QueryField | undefined, negated: boolean) => {
+    if (queryTerms.length === 0) return null
+
+    let variants = variantsOf(queryTerms)
+    const indexed = variants.some(variant => variant.every(term => index.postings.has(term)))
+    if (queryTerms.length === 1 && !field && !negated && !indexed) {
+      const [correction] = correctTerms(index, queryTerms)
+      if (correction) {
+        corrections.push(correction)
+        variants = variantsOf([correction.to])
+      }
+    }
+    // Categories and collections are not indexed, so filtering on them adds nothing to the score
+    if (!negated && isScoredField(field)) variants.flat().forEach(term => terms.add(term))
+
+    const matches = new Set<string>()
+    for (const [slug, { tokens }] of index.documents) {
+      const found = variants.some(variant => field
+        ? containsSequence(tokens[FIELD_TOKENS[field]], variant)
+        : variant.every(term => index.postings.get(term)?.has(slug)) &&
+          (variant.length === 1 || SEARCH_FIELDS.some(searchField => containsSequence(tokens[searchField], variant))))
+      if (found) matches.add(slug)
+    }
+    return matches
+  }
+
+  // Pages containing a word that starts with the prefix
+  const matchPrefix = (value: string, field: QueryField | undefined, negated: boolean) => {
+    const prefix = normalizeSearchText(value).replace(/[^a-z0-9]/g, '')
+    if (prefix.length < MIN_PREFIX_LENGTH) return null
+
+    // Index terms are stemmed: "happy*" must also find "happi" (happiness)
+    const stemmed = stem(prefix)
+    const matchesPrefix = (term: string) => term.startsWith(prefix) || term.startsWith(stemmed)
+
+    const matches = new Set<string>()
+    if (field) {
+      for (const [slug, { tokens }] of index.documents) {
+        const matching = tokens[FIELD_TOKENS[field]].filter(matchesPrefix)
+        if (matching.length === 0) continue
+        matches.add(slug)
+        if (!negated && isScoredField(field)) matching.forEach(term => terms.add(term))
+      }
+      return matches
+    }
+
+    for (const [term, termPostings] of index.postings) {
+      if (!matchesPrefix(term)) continue
+      if (!negated) terms.add(term)
+      termPostings.forEach((_, slug) => matches.add(slug))
+    }
+    return matches
+  }
+
+  const evaluate = (node: SearchQueryNode, negated: boolean): Set<string> | null => {
+    switch (node.type) {
+      case 'and':
+      case 'or': {
+        const sets = node.children
+          .map(child => evaluate(child, negated))
+          .filter((set): set is Set<string> => set !== null)
+        if (sets.length === 0) return null
+
+        return sets.reduce((result, set) => node.type === 'and'
+          ? new Set([...result].filter(slug => set.has(slug)))
+          : new Set([...result, ...set]))
+      }
+
+      case 'not': {
+        const excluded = evaluate(node.child, !negated)
+        if (!excluded) return null
+        return new Set([...index.documents.keys()].filter(slug => !excluded.has(slug)))
+      }
+
+      case 'term':
+        return node.prefix
+          ? matchPrefix(node.value, node.field, negated)
+          : matchTerms(tokenize(node.value), node.field, negated)
+
+      case 'phrase':
+        return matchTerms(tokenize(node.value), node.field, negated)
+    }
+  }
+
+  const matches = evaluate(query, false)
+  return { matches, terms: [...terms], corrections }
+}
+
+const RESULT_ORDER: Record<SearchSort, (a: SearchResult, b: SearchResult) => number> = {
+  relevance: (a, b) => b.score - a.score || a.title.localeCompare(b.title),
+  title: (a, b) => a.title.localeCompare(b.title),
+  words: (a, b) => b.wordCount - a.wordCount || a.title.localeCompare(b.title)
+}
+
+/**
+ * Search the index; results are ranked by score unless another sort is given
+ * and cover every collection unless one is given
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  { limit, sort = 'relevance', collection }: { limit?: number; sort?: SearchSort; collection?: Collection } = {}
+): SearchOutcome {
+  const parsed = parseSearchQuery(query)
+  const { matches, terms, corrections } = parsed
+    ? evaluateQuery(index, parsed)
+    : { matches: null, terms: [], corrections: [] }
+
+  if (!matches) {
+    return { terms, corrections, results: [] }
+  }
+
+  const scores = scoreDocuments(index, terms)
+  const results: SearchResult[] = [...matches]
+    .map(slug => index.documents.get(slug)!)
+    .filter(document => !collection || document.collection === collection)
+    .map(({ slug, collection, title, description, category, keywords, wordCount }) => {
+      const { score, terms: matched } = scores.get(slug) || { score: 0, terms: [] }
+      return { slug, collection, title, description, category, keywords, wordCount, score, terms: matched }
+    })
+
+  results.sort(RESULT_ORDER[sort])
+
+  return { terms, corrections, results: limit === undefined ? results : results.slice(0, limit) }
+}
+
+/**
+ * Count results per collection, category and keyword, most common first
+ * Keywords are counted under their preferred spelling when the index is given
+ */
+export function getSearchFacets(results: SearchResult[], index?: SearchIndex): SearchFacets {
+  const preferred = (keyword: string) => index?.preferredForms.get(normalizeSearchText(keyword)) ?? keyword
+
+  const count = (values: string[]): SearchFacet[] => {
+    const counts = new Map<string, number>()
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+    return [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+  }
+
+  return {
+    collections: count(results.map(result => result.collection)),
+    categories: count(results.flatMap(result => result.category ? [result.category] : [])),
+    keywords: count(results.flatMap(result => [...new Set(result.keywords.map(preferred))])).slice(0, MAX_KEYWORD_FACETS)
+  }
+}
+
+// Per-process index cache, rebuilt when a page or the synonym table changes
+const searchIndexLoader = createCachedLoader({
+  read: async () => {
+    const [pages, synonyms] = await Promise.all([loadAllPages(), loadSynonyms()])
+    return { pages, synonyms }
+  },
+  unchanged: (previous, current) =>
+    previous.synonyms === current.synonyms && samePageHashes(previous.pages, current.pages),
+  build: ({ pages, synonyms }) => buildSearchIndex(pages, synonyms)
+})
+
+/**
+ * Get the search index for all chapters, building it on first use
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+  return searchIndexLoader.load()
+}
+
+/**
+ * Drop the cached index (used by tests and content tooling)
+ */
+export function clearSearchIndexCache(): void {
+  searchIndexLoader.clear()
+}
@@ -0,0 +1,175 @@
+/**
+ * Search Log
+ *
+ * Append-only record of searches and result clicks, read by the analytics
+ * collector to find queries the wiki fails to answer:
+ * - One JSON event per line in .data/search-log.jsonl (SEARCH_LOG_PATH overrides)
+ * - Capped: past SEARCH_LOG_MAX_BYTES (10 MB by default) the log moves to
+ *   `<path>.1`, replacing the previous one, and a new log is started
+ * - Anonymized: queries are normalized with emails and long numbers redacted,
+ *   times are rounded to the hour, and no IP address or user agent is kept
+ * - Searches get a random id so a later click can be tied to the search
+ *   without identifying who made it
+ *
+ * Logging never fails a request: write errors are reported once and ignored.
+ */
+
+import { randomUUID } from 'crypto'
+import { appendFile, mkdir, readFile, rename, stat } from 'fs/promises'
+import { dirname, join } from 'path'
+
+export interface SearchLogSearch {
+  type: 'search'
+  id: string
+  at: string          // ISO time, rounded down to the hour
+  query: string       // anonymized query
+  results: number
+  corrected: boolean  // misspelled terms were replaced (see SearchOutcome.corrections)
+  refines?: string    // id of the search this one replaced while typing
+}
+
+export interface SearchLogClick {
+  type: 'click'
+  id: string          // id of the search the result came from
+  at: string
+  slug: string
+  position: number    // 1-based rank of the result
+}
+
+export type SearchLogEvent = SearchLogSearch | SearchLogClick
+
+const MAX_LOGGED_QUERY_LENGTH = 200
+const DEFAULT_MAX_LOG_BYTES = 10 * 1024 * 1024
+const SEARCH_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+// Appends are chained so concurrent events are written one line at a time
+let pendingWrite: Promise<void> = Promise.resolve()
+let reportedWriteError = false
+
+/**
+ * File the log is appended to
+ */
+export function getSearchLogPath(): string {
+  return process.env.SEARCH_LOG_PATH || join(process.cwd(), '.data', 'search-log.jsonl')
+}
+
+/**
+ * Size at which the log is rotated
+ */
+export function getSearchLogMaxBytes(): number {
+  const configured = Number(process.env.SEARCH_LOG_MAX_BYTES)
+  return configured > 0 ? configured : DEFAULT_MAX_LOG_BYTES
+}
+
+/**
+ * Check that a value looks like an id handed out by logSearch
+ */
+export function isSearchId(value: unknown): value is string {
+  return typeof value === 'string' && SEARCH_ID_PATTERN.test(value)
+}
+
+/**
+ * Normalize a query for logging and grouping, dropping anything that could
+ * identify a person (email addresses, phone and account numbers)
+ */
+export function anonymizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\S+@\S+\.\S+/g, '[email]')
+    .replace(/\+?\d(?:[\s-]?\d){8,}/g, '[number]')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_LOGGED_QUERY_LENGTH)
+}
+
+function roundToHour(date: Date): string {
+  const rounded = new Date(date)
+  rounded.setUTCMinutes(0, 0, 0)
+  return rounded.toISOString()
+}
+
+function append(event: SearchLogEvent): Promise<void> {
+  const path = getSearchLogPath()
+  const write = pendingWrite.then(async () => {
+    await mkdir(dirname(path), { recursive: true })
+    await rotateIfFull(path)
+    await appendFile(path, `${JSON.stringify(event)}\n`, 'utf8')
+  })
+
+  pendingWrite = write.catch(error => {
+    if (!reportedWriteError) {
+      reportedWriteError = true
+      console.warn(`Search log unavailable (${path}):`, error)
+    }
+  })
+  return pendingWrite
+}
+
+/**
+ * Keep at most two logs' worth of events: a full log replaces the previous one
+ */
+async function rotateIfFull(path: string): Promise<void> {
+  const size = await stat(path).then(stats => stats.size, () => 0)
+  if (size >= getSearchLogMaxBytes()) {
+    await rename(path, `${path}.1`)
+  }
+}
+
+/**
+ * Record a search; returns its id for click tracking
+ */
+export async function logSearch({ query, results, corrected, refines }: {
+  query: string
+  results: number
+  corrected: boolean
+  refines?: string
+}): Promise<string> {
+  const id = randomUUID()
+  await append({
+    type: 'search',
+    id,
+    at: roundToHour(new Date()),
+    query: anonymizeQuery(query),
+    results,
+    corrected,
+    ...(refines ? { refines } : {})
+  })
+  return id
+}
+
+/**
+ * Record a click on a search result
+ */
+export async function logSearchClick({ id, slug, position }: { id: string; slug: string; position: number }): Promise<void> {
+  await append({ type: 'click', id, at: roundToHour(new Date()), slug, position })
+}
+
+/**
+ * Read every logged event, oldest first, including the rotated log
+ * A missing log is empty; malformed lines (e.g. a torn final write) are skipped
+ */
+export async function readSearchLog(): Promise<SearchLogEvent[]> {
+  const path = getSearchLogPath()
+  return [...await readLogFile(`${path}.1`), ...await readLogFile(path)]
+}
+
+async function readLogFile(path: string): Promise<SearchLogEvent[]> {
+  let source: string
+  try {
+    source = await readFile(path, 'utf8')
+  } catch {
+    return []
+  }
+
+  const events: SearchLogEvent[] = []
+  for (const line of source.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const event = JSON.parse(line)
+      if (event?.type === 'search' || event?.type === 'click') events.push(event)
+    } catch {
+      // Skip the line
+    }
+  }
+  return events
+}
@@ -0,0 +1,147 @@
+/**
+ * Search Query Syntax
+ *
+ * Parses the query language accepted by /api/search:
+ * - `holy fool`            both words (AND is implied between clauses)
+ * - `"holy fool"`          exact phrase
+ * - `geel OR dymphna`      either word; AND binds tighter than OR
+ * - `NOT mast`, `-mast`    exclude pages with the word
+ * - `yurodiv*`             words starting with a prefix
+ * - `title:geel`, `keyword:alevi`, `category:"Mental Health & Care"`,
+ *   `collection:papers`
+ * - `(a OR b) c`           grouping
+ *
+ * Operators must be written in capitals; lowercase "and"/"or"/"not" are
+ * searched for as words. Unbalanced quotes and parentheses are closed at the
+ * end of the query rather than rejected. Evaluation is in lib/search-index.ts.
+ */
+
+export type QueryField = 'title' | 'keyword' | 'category' | 'collection'
+
+export type SearchQueryNode =
+  | { type: 'term'; value: string; prefix: boolean; field?: QueryField }
+  | { type: 'phrase'; value: string; field?: QueryField }
+  | { type: 'and' | 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode }
+
+type Token =
+  | { type: 'open' | 'close' | 'and' | 'or' | 'not' }
+  | { type: 'text'; value: string; quoted: boolean; field?: QueryField }
+
+const QUERY_FIELDS: Record<string, QueryField> = {
+  title: 'title',
+  keyword: 'keyword',
+  keywords: 'keyword',
+  category: 'category',
+  collection: 'collection'
+}
+
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not'
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:([()])|(-)(?=\S)|(?:(\w+):)?(?:"([^"]*)"?|([^\s()"]+)))/gy
+  let match: RegExpExecArray | null
+
+  while (pattern.lastIndex < query.length && (match = pattern.exec(query))) {
+    const [whole, paren, minus, fieldName, quoted, word] = match
+    if (!whole) break
+
+    if (paren) {
+      tokens.push({ type: paren === '(' ? 'open' : 'close' })
+    } else if (minus) {
+      tokens.push({ type: 'not' })
+    } else if (!fieldName && word && OPERATORS[word]) {
+      tokens.push({ type: OPERATORS[word] })
+    } else {
+      const field = fieldName ? QUERY_FIELDS[fieldName.toLowerCase()] : undefined
+      // Unknown fields ("foo:bar") are searched for as ordinary text
+      const value = fieldName && !field ? `${fieldName} ${quoted ?? word ?? ''}` : quoted ?? word ?? ''
+      tokens.push({ type: 'text', value, quoted: quoted !== undefined, field })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Parse a query into a tree; null when it contains nothing to search for
+ */
+export function parseSearchQuery(query: string): SearchQueryNode | null {
+  const tokens = lex(query)
+  let position = 0
+
+  const peek = () => tokens[position]
+
+  // or := and (OR and)*
+  const parseOr = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = []
+    for (;;) {
+      const child = parseAnd()
+      if (child) children.push(child)
+      if (peek()?.type !== 'or') break
+      position++
+    }
+
+    return children.length > 1 ? { type: 'or', children } : children[0] ?? null
+  }
+
+  // and := unary ((AND)? unary)*
+  const parseAnd = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = []
+    let token: Token | undefined
+
+    while ((token = peek()) && token.type !== 'or' && token.type !== 'close') {
+      if (token.type === 'and') {
+        position++
+        continue
+      }
+      const child = parseUnary()
+      if (child) children.push(child)
+    }
+
+    return children.length > 1 ? { type: 'and', children } : children[0] ?? null
+  }
+
+  // unary := NOT unary | ( or ) | text
+  const parseUnary = (): SearchQueryNode | null => {
+    const token = tokens[position++]
+
+    if (token.type === 'not') {
+      if (!peek() || peek().type === 'or' || peek().type === 'close') return null
+      const child = parseUnary()
+      return child ? { type: 'not', child } : null
+    }
+
+    if (token.type === 'open') {
+      const group = parseOr()
+      if (peek()?.type === 'close') position++
+      return group
+    }
+
+    if (token.type !== 'text') return null
+
+    const value = token.value.trim()
+    if (!value.replace(/\*+$/, '')) return null
+
+    const node: SearchQueryNode = token.quoted && /\s/.test(value)
+      ? { type: 'phrase', value }
+      : { type: 'term', value: value.replace(/\*+$/, ''), prefix: value.endsWith('*') }
+    if (token.field) node.field = token.field
+    return node
+  }
+
+  const nodes: SearchQueryNode[] = []
+  while (position < tokens.length) {
+    const node = parseOr()
+    if (node) nodes.push(node)
+    // Skip a stray closing parenthesis
+    if (peek()?.type === 'close') position++
+  }
+
+  return nodes.length > 1 ? { type: 'and', children: nodes } : nodes[0] ?? null
+}
@@ -0,0 +1,139 @@
+/**
+ * Search Snippets
+ *
+ * Builds the text shown under a search result: a window of plain text around
+ * each hit, with the matched terms marked and the `##`/`###` heading the hit
+ * falls under, so results can link straight to /wiki/slug#heading-id.
+ * Hits close enough to share a window are merged into one snippet.
+ */
+
+import { headingId } from './toc'
+import { tokenize } from './search-index'
+
+export interface SnippetSection {
+  id: string      // heading anchor, as generated by lib/toc.ts
+  title: string
+}
+
+export interface SearchSnippet {
+  text: string                          // plain text, with … where it was cut
+  highlights: Array<[number, number]>   // [start, end) offsets of matched words in text
+  section?: SnippetSection
+}
+
+const SNIPPET_RADIUS = 80   // characters kept on each side of a hit
+const MAX_SNIPPET_LENGTH = 240
+const MAX_SNIPPETS = 3
+
+interface Window {
+  line: number
+  start: number
+  end: number
+  hits: Array<[number, number]>
+  terms: Set<string>
+}
+
+/**
+ * Markdown line to the text a reader sees: link text only, no emphasis or
+ * list/quote markers
+ */
+function toPlainText(line: string): string {
+  return line
+    .replace(/\[\[(?:([^\]|]+)\|)?([^\]]+)\]\]/g, (_, text, target) => text || target)
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(?<=[\p{L}\p{N}])\*(?=[\p{L}\p{N}])/gu, ' ')  // "Majdhub*Mast" separators
+    .replace(/(\*{1,3}|_{2,3}|`)/g, '')
+    .replace(/^\s*(?:[-*+]|\d+\.|>)\s+/, '')
+    .trim()
+}
+
+/** Move a window edge off a partial word */
+function wordBoundary(text: string, position: number, direction: 'start' | 'end'): number {
+  if (direction === 'start') {
+    if (position <= 0 || text[position - 1] === ' ') return position
+    const space = text.indexOf(' ', position)
+    return space === -1 ? position : space + 1
+  }
+  if (position >= text.length || text[position] === ' ') return position
+  const space = text.lastIndexOf(' ', position)
+  return space === -1 ? position : space
+}
+
+/**
+ * Snippets for the places a document matches any of the (index) terms
+ * Windows matching more distinct terms are preferred; the chosen ones are
+ * returned in document order.
+ */
+export function buildSnippets(content: string, terms: string[], max: number = MAX_SNIPPETS): SearchSnippet[] {
+  const wanted = new Set(terms)
+  const lines: Array<{ text: string; section?: SnippetSection }> = []
+  const windows: Window[] = []
+  let section: SnippetSection | undefined
+  let inCodeBlock = false
+
+  for (const raw of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+    if (inCodeBlock) continue
+
+    const heading = raw.match(/^(#{2,3})\s+(.+)$/)
+    if (heading) {
+      const title = heading[2].trim()
+      section = { id: headingId(title), title }
+      continue
+    }
+    if (/^#/.test(raw)) continue
+
+    const text = toPlainText(raw)
+    if (!text) continue
+
+    const line = lines.push({ text, section }) - 1
+    let current: Window | undefined
+
+    for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+      const matched = tokenize(word[0]).filter(term => wanted.has(term))
+      if (matched.length === 0) continue
+
+      const start = word.index ?? 0
+      const end = start + word[0].length
+
+      // Overlapping windows on the same line become one snippet, up to a length
+      if (current && start - SNIPPET_RADIUS <= current.end &&
+          Math.min(text.length, end + SNIPPET_RADIUS) - current.start <= MAX_SNIPPET_LENGTH) {
+        current.end = Math.min(text.length, end + SNIPPET_RADIUS)
+      } else {
+        current = {
+          line,
+          start: Math.max(0, start - SNIPPET_RADIUS),
+          end: Math.min(text.length, end + SNIPPET_RADIUS),
+          hits: [],
+          terms: new Set()
+        }
+        windows.push(current)
+      }
+      current.hits.push([start, end])
+      matched.forEach(term => current!.terms.add(term))
+    }
+  }
+
+  return windows
+    .map((window, order) => ({ window, order }))
+    .sort((a, b) => b.window.terms.size - a.window.terms.size || a.order - b.order)
+    .slice(0, max)
+    .sort((a, b) => a.order - b.order)
+    .map(({ window }) => {
+      const { text, section } = lines[window.line]
+      const start = Math.min(wordBoundary(text, window.start, 'start'), window.hits[0][0])
+      const end = Math.max(wordBoundary(text, window.end, 'end'), window.hits[window.hits.length - 1][1])
+      const prefix = start > 0 ? '…' : ''
+
+      const snippet: SearchSnippet = {
+        text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+        highlights: window.hits.map(([hitStart, hitEnd]) => [hitStart - start + prefix.length, hitEnd - start + prefix.length])
+      }
+      if (section) snippet.section = section
+      return snippet
+    })
+}
@@ -0,0 +1,123 @@
+/**
+ * English Stemmer
+ *
+ * Porter (1980) stemming algorithm, used by the search index so that
+ * "mystics", "mystical" and "mysticism" share an index term. Expects
+ * lowercase ASCII words (see normalizeSearchText in lib/search-index.ts).
+ */
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log'
+}
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: ''
+}
+
+const consonant = '[^aeiou]'
+const vowel = '[aeiouy]'
+const consonantSequence = `${consonant}[^aeiouy]*`
+const vowelSequence = `${vowel}[aeiou]*`
+
+const MEASURE_GT_0 = new RegExp(`^(${consonantSequence})?${vowelSequence}${consonantSequence}`)
+const MEASURE_EQ_1 = new RegExp(`^(${consonantSequence})?${vowelSequence}${consonantSequence}(${vowelSequence})?$`)
+const MEASURE_GT_1 = new RegExp(`^(${consonantSequence})?${vowelSequence}${consonantSequence}${vowelSequence}${consonantSequence}`)
+const HAS_VOWEL = new RegExp(`^(${consonantSequence})?${vowel}`)
+const ENDS_CVC = new RegExp(`^${consonantSequence}${vowel}[^aeiouwxy]$`)
+
+/**
+ * Reduce an English word to its stem, e.g. "meanings" -> "mean"
+ */
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word
+
+  const startsWithY = word[0] === 'y'
+  let w = startsWithY ? `Y${word.slice(1)}` : word
+  let match: RegExpExecArray | null
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2]
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2]
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) w = w.slice(0, -1)
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    if (HAS_VOWEL.test(match[1])) {
+      w = match[1]
+      if (/(at|bl|iz)$/.test(w)) {
+        w += 'e'
+      } else if (/([^aeiouylsz])\1$/.test(w)) {
+        w = w.slice(0, -1)
+      } else if (ENDS_CVC.test(w)) {
+        w += 'e'
+      }
+    }
+  }
+
+  // Step 1c: -y -> -i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = `${match[1]}i`
+  }
+
+  // Step 2: double suffixes
+  match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w)
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]]
+  }
+
+  // Step 3: -ic-, -full, -ness etc.
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w)
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]]
+  }
+
+  // Step 4: -ant, -ence etc.
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1])) w = match[1]
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1] + match[2])) w = match[1] + match[2]
+  }
+
+  // Step 5: tidy up -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1]
+    if (MEASURE_GT_1.test(base) || (MEASURE_EQ_1.test(base) && !ENDS_CVC.test(base))) {
+      w = base
+    }
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1)
+  }
+
+  return startsWithY ? `y${w.slice(1)}` : w
+}
@@ -0,0 +1,97 @@
+/**
+ * Synonym Table
+ *
+ * Variant spellings and transliterations (salos/saloi, majdhub/majzub/mazjub,
+ * Kalenderi/Qalandari) maintained as content in content/synonyms.md, so
+ * editors can extend it without touching code. Used by:
+ * - search query expansion and keyword facets (lib/search-index.ts)
+ * - the unlinked-mentions scanner (lib/unlinked-mentions.ts)
+ *
+ * Memoized by file mtime like pages in lib/content.ts.
+ */
+
+import { stat, readFile } from 'fs/promises'
+import { join } from 'path'
+import matter from 'gray-matter'
+
+/** Spellings of one term; the first is the preferred form */
+export type SynonymGroup = string[]
+
+let cached: { mtimeMs: number; groups: SynonymGroup[] } | null = null
+
+/**
+ * File holding the synonym groups (in its frontmatter)
+ */
+export function getSynonymsPath(): string {
+  return join(process.cwd(), 'content/synonyms.md')
+}
+
+/**
+ * Read synonym groups from the file's frontmatter
+ * Entries are trimmed and lowercased; groups with fewer than two spellings
+ * and spellings already listed in an earlier group are dropped.
+ */
+export function parseSynonyms(source: string): SynonymGroup[] {
+  const { data } = matter(source)
+  if (!Array.isArray(data.synonyms)) return []
+
+  const seen = new Set<string>()
+  const groups: SynonymGroup[] = []
+
+  for (const entry of data.synonyms) {
+    if (!Array.isArray(entry)) continue
+
+    const group = [...new Set(
+      entry
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim().toLowerCase())
+        .filter(Boolean)
+    )].filter(item => !seen.has(item))
+
+    if (group.length < 2) continue
+    group.forEach(item => seen.add(item))
+    groups.push(group)
+  }
+
+  return groups
+}
+
+/**
+ * Load the synonym groups; a missing file means no synonyms
+ * Returns the same array while the file is unchanged, so callers can cache on it
+ */
+export async function loadSynonyms(): Promise<SynonymGroup[]> {
+  const filePath = getSynonymsPath()
+
+  let mtimeMs: number
+  try {
+    mtimeMs = (await stat(filePath)).mtimeMs
+  } catch {
+    cached = null
+    return []
+  }
+
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.groups
+  }
+
+  const groups = parseSynonyms(await readFile(filePath, 'utf8'))
+  cached = { mtimeMs, groups }
+  return groups
+}
+
+/**
+ * Other spellings of a term (case-insensitive); empty when it has none
+ */
+export function findSynonyms(groups: SynonymGroup[], term: string): string[] {
+  const key = term.trim().toLowerCase()
+  const group = groups.find(candidate => candidate.includes(key))
+  return group ? group.filter(item => item !== key) : []
+}
+
+/**
+ * Clear the parse cache (used by tests and content tooling)
+ */
+export function clearSynonymsCache(): void {
+  cached = null
+}
@@ -4,6 +4,28 @@ export interface TocItem {
   level: number
 }
 
+/**
+ * Anchor id for a heading, e.g. "The Holy Fool" -> "the-holy-fool"
+ *
+ * Slugs the heading's rendered text, as rehype-slug does, so inline markdown
+ * such as "_Saloi_" or [links](url) does not end up in the id
+ */
+export function headingId(text: string): string {
+  return stripInlineMarkdown(text)
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')     // links and images keep their text
+    .replace(/`+/g, '')                             // code spans
+    .replace(/(^|\W)[*_]+(?=\S)/g, '$1')            // opening emphasis
+    .replace(/(\S)[*_]+(?=\W|$)/g, '$1')            // closing emphasis
+}
+
 export function extractTOC(content: string): TocItem[] {
   const headingRegex = /^(#{2,3})\s+(.+)$/gm
   const toc: TocItem[] = []
@@ -12,11 +34,7 @@ export function extractTOC(content: string): TocItem[] {
   while ((match = headingRegex.exec(content)) !== null) {
     const level = match[1].length
     const text = match[2].trim()
-    const id = text
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/^-+|-+$/g, '')
+    const id = headingId(text)
 
     toc.push({ id, text, level })
   }
@@ -26,11 +44,7 @@ export function extractTOC(content: string): TocItem[] {
 
 export function addIdsToHeadings(content: string): string {
   return content.replace(/^(#{2,3})\s+(.+)$/gm, (match, hashes, text) => {
-    const id = text
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/^-+|-+$/g, '')
+    const id = headingId(text)
     return `${hashes} ${text} {#${id}}`
   })
 }
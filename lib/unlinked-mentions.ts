@@ -0,0 +1,274 @@
+/**
+ * Unlinked Mentions
+ *
+ * Finds places where a chapter mentions another page by title or keyword
+ * without linking to it - candidates for new wiki links. Shown on the
+ * mentioned page under "What Links Here" and reported to editors by
+ * `npm run report:unlinked` and /api/graph/unlinked.
+ *
+ * Variant spellings from the synonym table (lib/synonyms.ts) count as
+ * mentions too: a page keyworded "majdhub" is found as "majzub".
+ */
+
+import { relative } from 'path'
+import { loadAllPages, type ContentPage } from './content'
+import {
+  buildLinkGraph,
+  findLineLinks,
+  getHeadingSection,
+  linkContext,
+  type LineLink,
+  type LinkContext,
+  type LinkGraph,
+  type LinkSection,
+  type WikiPage
+} from './graph-builder'
+import { findSynonyms, loadSynonyms, type SynonymGroup } from './synonyms'
+import { buildPageIndex, findCodeSpans, isCodeFence } from './wikilinks'
+
+export type MentionSource = 'title' | 'keyword'
+
+export interface MentionTerm {
+  term: string
+  slug: string
+  source: MentionSource
+}
+
+export interface UnlinkedMention {
+  from: string            // page containing the mention
+  to: string              // page being mentioned
+  term: string            // matched text as written
+  file: string            // source file, relative to the repo root
+  line: number            // 1-based line in the source file
+  column: number          // 1-based column in that line
+  count: number           // unlinked mentions of the same page in the source page
+  context: LinkContext
+  section?: LinkSection
+}
+
+const MIN_TERM_LENGTH = 4
+
+// Mentions are rescanned only when buildLinkGraph returns a new graph or the
+// synonym table changes
+const mentionsCache = new WeakMap<LinkGraph, { synonyms: SynonymGroup[]; mentions: UnlinkedMention[] }>()
+
+/**
+ * Terms that identify a page: its title, the part before a colon
+ * ("Majdhub / Mast: ..." -> "Majdhub / Mast", "Majdhub", "Mast") and its keywords,
+ * each with its variant spellings
+ *
+ * Terms claimed by more than one page are dropped as ambiguous; a title
+ * wins over another page's keyword.
+ */
+export function buildMentionTerms(pages: WikiPage[], synonyms: SynonymGroup[] = []): MentionTerm[] {
+  const claims: Record<MentionSource, Map<string, { term: string; slugs: Set<string> }>> = {
+    title: new Map(),
+    keyword: new Map()
+  }
+
+  const addClaim = (source: MentionSource, term: string, slug: string) => {
+    if (term.length < MIN_TERM_LENGTH) return
+
+    const key = term.toLowerCase()
+    const entry = claims[source].get(key) || { term, slugs: new Set<string>() }
+    entry.slugs.add(slug)
+    claims[source].set(key, entry)
+  }
+
+  const claim = (source: MentionSource, term: string, slug: string) => {
+    const trimmed = term.trim()
+    addClaim(source, trimmed, slug)
+
+    // Variants are capitalized like the term, since one-word titles match case
+    const capitalized = /^\p{Lu}/u.test(trimmed)
+    for (const variant of findSynonyms(synonyms, trimmed)) {
+      addClaim(source, capitalized ? variant.charAt(0).toUpperCase() + variant.slice(1) : variant, slug)
+    }
+  }
+
+  for (const page of pages) {
+    claim('title', page.title, page.slug)
+
+    const [prefix] = page.title.split(':')
+    if (prefix !== page.title) {
+      claim('title', prefix, page.slug)
+      const parts = prefix.split(' / ')
+      if (parts.length > 1) parts.forEach(part => claim('title', part, page.slug))
+    }
+
+    for (const keyword of page.keywords || []) {
+      claim('keyword', keyword, page.slug)
+    }
+  }
+
+  const terms: MentionTerm[] = []
+  for (const source of ['title', 'keyword'] as const) {
+    for (const [key, { term, slugs }] of claims[source]) {
+      if (slugs.size !== 1) continue
+      if (source === 'keyword' && claims.title.has(key)) continue
+      terms.push({ term, slug: [...slugs][0], source })
+    }
+  }
+
+  // Longest first, so "Sacred Madness in the Modern World" wins over "sacred madness"
+  return terms.sort((a, b) => b.term.length - a.term.length || a.term.localeCompare(b.term))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Scan pages for unlinked mentions of other pages
+ * Reports the first unlinked mention per source and target page, and skips
+ * targets the source page already links to inline.
+ */
+export function scanUnlinkedMentions(
+  contentPages: ContentPage[],
+  graph: LinkGraph,
+  synonyms: SynonymGroup[] = []
+): UnlinkedMention[] {
+  const pageIndex = buildPageIndex(Array.from(graph.pages.values()))
+  const terms = buildMentionTerms(Array.from(graph.pages.values()), synonyms).map(term => ({
+    ...term,
+    pattern: new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(term.term)}(?![\\p{L}\\p{N}])`,
+      // One-word title fragments ("Conclusion", "Phenomenology") only match as
+      // written - lowercase they are usually just the common word
+      term.source === 'title' && !/\s/.test(term.term) ? 'gu' : 'giu'
+    )
+  }))
+
+  const linkedInline = new Set(
+    graph.edges.filter(edge => edge.type === 'inline').map(edge => `${edge.from}->${edge.to}`)
+  )
+
+  const mentions: UnlinkedMention[] = []
+
+  for (const page of contentPages) {
+    const file = relative(process.cwd(), page.filePath)
+    const found = new Map<string, UnlinkedMention>()
+    let section: LinkSection | undefined
+    let inCodeBlock = false
+
+    page.content.split('\n').forEach((text, index) => {
+      if (isCodeFence(text)) {
+        inCodeBlock = !inCodeBlock
+        return
+      }
+      if (inCodeBlock) return
+
+      const heading = getHeadingSection(text)
+      if (heading) {
+        section = heading
+        return
+      }
+
+      // Text already inside links or code is not a candidate
+      const links = findLineLinks(text, pageIndex)
+      const taken: Array<[number, number]> = links.map(link => [link.index, link.index + link.length])
+      taken.push(...findCodeSpans(text))
+      for (const match of text.matchAll(/\[[^\]]*\]\([^)]*\)|https?:\/\/\S+/g)) {
+        taken.push([match.index ?? 0, (match.index ?? 0) + match[0].length])
+      }
+      const isFree = (start: number, end: number) => taken.every(([s, e]) => end <= s || start >= e)
+
+      for (const { slug, pattern } of terms) {
+        if (slug === page.slug || linkedInline.has(`${page.slug}->${slug}`)) continue
+
+        for (const match of text.matchAll(pattern)) {
+          const start = match.index ?? 0
+          const end = start + match[0].length
+          if (!isFree(start, end)) continue
+          taken.push([start, end])
+
+          const existing = found.get(slug)
+          if (existing) {
+            existing.count++
+            continue
+          }
+
+          const mention: LineLink = { slug, text: match[0], index: start, length: match[0].length }
+          const lineLinks = [...links, mention].sort((a, b) => a.index - b.index)
+
+          const unlinked: UnlinkedMention = {
+            from: page.slug,
+            to: slug,
+            term: match[0],
+            file,
+            line: page.lineOffset + index + 1,
+            column: start + 1,
+            count: 1,
+            context: linkContext(text, mention, lineLinks)
+          }
+          if (section) unlinked.section = section
+          found.set(slug, unlinked)
+        }
+      }
+    })
+
+    mentions.push(...found.values())
+  }
+
+  return mentions.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column)
+}
+
+/**
+ * Find unlinked mentions across all chapters (cached per link graph)
+ */
+export async function findUnlinkedMentions(): Promise<UnlinkedMention[]> {
+  const [graph, synonyms] = await Promise.all([buildLinkGraph(), loadSynonyms()])
+
+  const cached = mentionsCache.get(graph)
+  if (cached && cached.synonyms === synonyms) return cached.mentions
+
+  const mentions = scanUnlinkedMentions(await loadAllPages(), graph, synonyms)
+  mentionsCache.set(graph, { synonyms, mentions })
+  return mentions
+}
+
+/**
+ * Get the pages that mention a page without linking to it
+ */
+export function getUnlinkedMentionsTo(
+  graph: LinkGraph,
+  mentions: UnlinkedMention[],
+  slug: string
+): Array<{ page: WikiPage; mention: UnlinkedMention }> {
+  return mentions
+    .filter(mention => mention.to === slug && graph.pages.has(mention.from))
+    .map(mention => ({ page: graph.pages.get(mention.from)!, mention }))
+}
+
+/**
+ * Group mentions by source file
+ */
+export function groupMentionsByFile(mentions: UnlinkedMention[]): Map<string, UnlinkedMention[]> {
+  const byFile = new Map<string, UnlinkedMention[]>()
+
+  for (const mention of mentions) {
+    const fileMentions = byFile.get(mention.file) || []
+    fileMentions.push(mention)
+    byFile.set(mention.file, fileMentions)
+  }
+
+  return byFile
+}
+
+/**
+ * Format mentions as `file:line:column  "term" -> /wiki/slug` lines
+ */
+export function formatUnlinkedMentionsReport(mentions: UnlinkedMention[]): string {
+  const byFile = groupMentionsByFile(mentions)
+  const lines = [`Found ${mentions.length} unlinked mentions in ${byFile.size} files`]
+
+  for (const [file, fileMentions] of byFile) {
+    lines.push('', file)
+    for (const mention of fileMentions) {
+      const more = mention.count > 1 ? ` (+${mention.count - 1} more)` : ''
+      lines.push(`  ${file}:${mention.line}:${mention.column}  "${mention.term}" -> /wiki/${mention.to}${more}`)
+    }
+  }
+
+  return lines.join('\n')
+}
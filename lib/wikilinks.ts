@@ -0,0 +1,162 @@
+/**
+ * Wikilink Resolution
+ *
+ * Resolves `[[slug]]`, `[[Page Title]]` and `[[text|target]]` links against
+ * the page index. Both the link graph (extractWikiLinks) and the rendered MDX
+ * (remarkWikiLinks) go through resolveWikiLink, so they can never disagree
+ * about where a wikilink points, and both leave code alone.
+ */
+
+import type { Root, Parent, PhrasingContent, Link, Text } from 'mdast'
+
+export interface WikiLinkMatch {
+  text: string    // text displayed for the link
+  target: string  // raw target as written
+  index: number   // offset of the match in the searched string
+  length: number  // length of the full [[...]] match
+}
+
+/** page-index key -> slug */
+export type PageIndex = Map<string, string>
+
+const WIKILINK_PATTERN = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g
+
+/**
+ * Normalize a title or slug into a page-index key
+ * Case, whitespace, hyphens and punctuation are ignored:
+ * "Kaygusuz Abdal and Alevi Mysticism" === "kaygusuz-abdal-and-alevi-mysticism"
+ */
+export function normalizeLinkKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/[\s-]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Build the page index from page slugs and titles
+ * Slugs win over titles when the two collide
+ */
+export function buildPageIndex(pages: Array<{ slug: string; title: string }>): PageIndex {
+  const index: PageIndex = new Map()
+
+  for (const page of pages) {
+    const titleKey = normalizeLinkKey(page.title)
+    if (titleKey && !index.has(titleKey)) {
+      index.set(titleKey, page.slug)
+    }
+  }
+
+  for (const page of pages) {
+    index.set(normalizeLinkKey(page.slug), page.slug)
+  }
+
+  return index
+}
+
+/**
+ * Resolve a wikilink target to a slug
+ * Unknown targets fall back to a slugified form (and show up as broken links)
+ */
+export function resolveWikiLink(target: string, index: PageIndex): string {
+  const resolved = index.get(normalizeLinkKey(target))
+  if (resolved) return resolved
+
+  return target.trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+/**
+ * Find all wikilinks in a string
+ * Supports: [[target]] and [[text|target]]
+ */
+export function findWikiLinks(value: string): WikiLinkMatch[] {
+  const matches: WikiLinkMatch[] = []
+
+  for (const match of value.matchAll(WIKILINK_PATTERN)) {
+    matches.push({
+      text: match[1].trim(),
+      target: (match[2] || match[1]).trim(),
+      index: match.index ?? 0,
+      length: match[0].length
+    })
+  }
+
+  return matches
+}
+
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/
+const CODE_SPAN_PATTERN = /(`+).+?\1(?!`)/g
+
+/**
+ * Whether a line opens or closes a fenced code block
+ * Line-based scans (the link graph, unlinked mentions) skip fenced blocks
+ * and inline code, which remarkWikiLinks never sees as text either.
+ */
+export function isCodeFence(line: string): boolean {
+  return CODE_FENCE_PATTERN.test(line)
+}
+
+/**
+ * Inline code spans in a line, as [start, end) ranges
+ */
+export function findCodeSpans(line: string): Array<[number, number]> {
+  return [...line.matchAll(CODE_SPAN_PATTERN)].map(match => [match.index ?? 0, (match.index ?? 0) + match[0].length])
+}
+
+/**
+ * Remark plugin: turn [[wikilinks]] in text into links to /wiki/slug
+ * The MDX `a` override then renders them as Next Links (or red links)
+ */
+export function remarkWikiLinks({ index }: { index: PageIndex }) {
+  return (tree: Root) => {
+    transformChildren(tree, index)
+  }
+}
+
+function transformChildren(node: Parent, index: PageIndex): void {
+  const children: Parent['children'] = []
+
+  for (const child of node.children) {
+    if (child.type === 'text') {
+      children.push(...splitTextNode(child, index))
+      continue
+    }
+
+    // Leave existing links and code alone
+    if ('children' in child && child.type !== 'link' && child.type !== 'linkReference') {
+      transformChildren(child, index)
+    }
+    children.push(child)
+  }
+
+  node.children = children as typeof node.children
+}
+
+function splitTextNode(node: Text, index: PageIndex): PhrasingContent[] {
+  const matches = findWikiLinks(node.value)
+  if (matches.length === 0) return [node]
+
+  const parts: PhrasingContent[] = []
+  let cursor = 0
+
+  for (const match of matches) {
+    if (match.index > cursor) {
+      parts.push({ type: 'text', value: node.value.slice(cursor, match.index) })
+    }
+
+    const link: Link = {
+      type: 'link',
+      url: `/wiki/${resolveWikiLink(match.target, index)}`,
+      children: [{ type: 'text', value: match.text }]
+    }
+    parts.push(link)
+    cursor = match.index + match.length
+  }
+
+  if (cursor < node.value.length) {
+    parts.push({ type: 'text', value: node.value.slice(cursor) })
+  }
+
+  return parts
+}
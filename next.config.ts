@@ -137,6 +137,11 @@ const nextConfig: NextConfig = {
     ]
   },
 
+  // Ship the passage index from `npm run build:passages` with the chat route
+  outputFileTracingIncludes: {
+    '/api/ai/chat': ['./.data/passage-index.json']
+  },
+
   // Additional security configurations
   poweredByHeader: false, // Remove X-Powered-By header
   
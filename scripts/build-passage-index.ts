@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+/**
+ * Build Passage Index
+ *
+ * Chunks every chapter and paper section into passages and writes their
+ * BM25 index for the AI chat's retrieval, so deployments do not build it
+ * on their first question
+ */
+
+import { relative } from 'path'
+import { getPassageIndexPath, writePassageIndex } from '../lib/passage-index'
+
+async function main() {
+  console.log('📚 Indexing passages for chat retrieval...\n')
+
+  const index = await writePassageIndex()
+  const pages = Object.keys(index.hashes).length
+
+  console.log(`✅ ${index.passages.length} passages from ${pages} pages`)
+  console.log(`   written to ${relative(process.cwd(), getPassageIndexPath())}`)
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('❌ Error building passage index:', error)
+  process.exit(1)
+})
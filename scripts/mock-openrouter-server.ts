@@ -0,0 +1,91 @@
+/**
+ * Mock OpenRouter Server
+ *
+ * Local stand-in for OpenRouter's streaming chat completions endpoint:
+ * answers every POST to /chat/completions with a canned reply, one word per
+ * chunk, followed by a usage chunk and `[DONE]` - the same shape OpenRouter
+ * sends. Used by `npm run mock:openrouter` and the chat API tests.
+ */
+
+import { createServer, type Server } from 'http'
+
+export interface MockOpenRouterOptions {
+  reply?: string
+  delayMs?: number                              // pause between chunks
+  status?: number                               // answer with this error status instead
+  onRequest?: (body: Record<string, unknown>) => void
+  onClose?: (completed: boolean) => void        // completed is false when the client hung up
+}
+
+export const MOCK_REPLY = 'The saloi of Byzantium and the yurodivye of Russia both feigned madness to mock worldly wisdom.'
+
+/**
+ * Create the server; call listen() to start it
+ */
+export function createMockOpenRouter({
+  reply = MOCK_REPLY,
+  delayMs = 20,
+  status = 200,
+  onRequest,
+  onClose
+}: MockOpenRouterOptions = {}): Server {
+  return createServer((req, res) => {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+      res.writeHead(404).end()
+      return
+    }
+
+    let raw = ''
+    req.on('data', chunk => { raw += chunk })
+    req.on('end', () => {
+      const body = JSON.parse(raw || '{}')
+      onRequest?.(body)
+
+      if (status !== 200) {
+        res.writeHead(status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ error: { message: 'Mock upstream error', code: status } }))
+        return
+      }
+
+      const words = reply.match(/\S+\s*/g) || []
+      const chunk = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`)
+      const choice = (delta: Record<string, string>, finishReason: string | null = null) => ({
+        id: 'gen-mock',
+        model: body.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }]
+      })
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+      res.write(': OPENROUTER PROCESSING\n\n')
+      chunk(choice({ role: 'assistant', content: '' }))
+
+      let sent = 0
+      let completed = false
+      const timer = setInterval(() => {
+        if (sent < words.length) {
+          chunk(choice({ content: words[sent++] }))
+          return
+        }
+
+        clearInterval(timer)
+        chunk(choice({}, 'stop'))
+        chunk({
+          ...choice({}),
+          choices: [],
+          usage: {
+            prompt_tokens: Math.ceil(raw.length / 4),
+            completion_tokens: words.length,
+            prompt_tokens_details: { cached_tokens: 0 }
+          }
+        })
+        res.end('data: [DONE]\n\n')
+        completed = true
+      }, delayMs)
+
+      res.on('close', () => {
+        clearInterval(timer)
+        onClose?.(completed)
+      })
+    })
+  })
+}
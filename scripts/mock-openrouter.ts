@@ -0,0 +1,24 @@
+#!/usr/bin/env tsx
+/**
+ * Mock OpenRouter
+ *
+ * Serves streaming chat completions locally so the chat can be developed
+ * without an API key:
+ *
+ *   npm run mock:openrouter
+ *   OPENROUTER_BASE_URL=http://localhost:8787 OPENROUTER_API_KEY=mock npm run dev
+ */
+
+import { createMockOpenRouter } from './mock-openrouter-server'
+
+const port = Number(process.env.MOCK_OPENROUTER_PORT) || 8787
+const delayMs = Number(process.env.MOCK_OPENROUTER_DELAY_MS) || 80
+
+createMockOpenRouter({
+  delayMs,
+  onRequest: body => console.log(`💬 ${body.model}: ${JSON.stringify(body.messages).length} chars of messages`),
+  onClose: completed => console.log(completed ? '✅ Answer sent' : '⏹️  Client stopped the answer')
+}).listen(port, () => {
+  console.log(`🤖 Mock OpenRouter listening on http://localhost:${port}`)
+  console.log(`   OPENROUTER_BASE_URL=http://localhost:${port} OPENROUTER_API_KEY=mock npm run dev`)
+})
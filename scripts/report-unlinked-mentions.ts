@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+/**
+ * Unlinked Mentions Report
+ *
+ * Lists chapter text that mentions another page's title or keywords
+ * without linking to it, as `file:line:column` suggestions
+ */
+
+import { findUnlinkedMentions, formatUnlinkedMentionsReport } from '../lib/unlinked-mentions'
+
+async function main() {
+  console.log('🔗 Scanning chapters for unlinked mentions...\n')
+
+  const mentions = await findUnlinkedMentions()
+
+  console.log(formatUnlinkedMentionsReport(mentions))
+  console.log()
+
+  if (mentions.length > 0) {
+    console.log('💡 Consider linking the first mention of each page')
+  } else {
+    console.log('✨ No unlinked mentions found!')
+  }
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('❌ Error scanning for unlinked mentions:', error)
+  process.exit(1)
+})
@@ -0,0 +1,31 @@
+#!/usr/bin/env tsx
+/**
+ * Content Validation Runner
+ *
+ * Checks chapter and paper frontmatter against the declared schema
+ * Exits non-zero when any errors are found
+ */
+
+import { validateContent, formatValidationReport } from '../lib/content-schema'
+
+async function main() {
+  console.log('🔎 Validating content frontmatter...\n')
+
+  const report = await validateContent()
+
+  console.log(formatValidationReport(report))
+  console.log()
+
+  if (report.errors.length > 0) {
+    console.log('❌ Frontmatter validation failed')
+    process.exit(1)
+  } else {
+    console.log('✨ Frontmatter validation passed!')
+    process.exit(0)
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Error running content validation:', error)
+  process.exit(1)
+})